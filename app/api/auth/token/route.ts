@@ -0,0 +1,55 @@
+// app/api/auth/token/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { apiKeyStore } from '@/lib/api-keys';
+import { AUTH_METHOD_HEADER, CLIENT_ID_HEADER, issueToken } from '@/lib/auth';
+import { ApiError, ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseTokenRequest } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('auth-api');
+
+const TOKEN_ERROR = {
+  code: ErrorCodes.AUTH_FAILED,
+  error: 'Failed to issue token',
+};
+
+/**
+ * Exchanges an API key for a short-lived signed token. The admin key can
+ * issue a token for any key by passing `keyId`.
+ */
+export const POST = withRequestTracing('/api/auth/token', async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const tokenRequest = parseTokenRequest(body);
+
+    // Both headers are set by the proxy after it authenticated the caller
+    const method = request.headers.get(AUTH_METHOD_HEADER);
+    const clientId = request.headers.get(CLIENT_ID_HEADER);
+
+    let keyId: string;
+    if (method === 'admin' && tokenRequest.keyId) {
+      const key = await apiKeyStore.get(tokenRequest.keyId);
+      if (!key || key.revokedAt) {
+        throw new ApiError(ErrorCodes.API_KEY_NOT_FOUND, `API key not found: ${tokenRequest.keyId}`, 404);
+      }
+      keyId = key.id;
+    } else if (method === 'api-key' && clientId) {
+      keyId = clientId;
+    } else {
+      throw new ApiError(
+        ErrorCodes.FORBIDDEN,
+        'Tokens are issued in exchange for an API key (or by the admin key with keyId)',
+        403
+      );
+    }
+
+    const issued = issueToken(keyId, tokenRequest.ttl);
+    log.info('Issued token', { keyId, expiresAt: issued.expiresAt });
+
+    return NextResponse.json(issued, { status: 201 });
+  } catch (error) {
+    log.failure('Token request failed', error);
+    return errorResponse(error, TOKEN_ERROR);
+  }
+});
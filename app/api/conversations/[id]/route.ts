@@ -0,0 +1,57 @@
+// app/api/conversations/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { ApiError, ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseConversationInput } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('conversations-api');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const STORE_ERROR = {
+  code: ErrorCodes.CONVERSATION_STORE_FAILED,
+  error: 'Conversation storage failed',
+};
+
+export const GET = withRequestTracing('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await conversationStore.get(getClientId(request.headers), id));
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, STORE_ERROR);
+  }
+});
+
+export const PATCH = withRequestTracing('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => {
+      throw new ApiError(ErrorCodes.INVALID_JSON, 'Request body must be valid JSON', 400);
+    });
+    const { title } = parseConversationInput(body, { requireTitle: true });
+
+    return NextResponse.json(await conversationStore.rename(getClientId(request.headers), id, title));
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, STORE_ERROR);
+  }
+});
+
+export const DELETE = withRequestTracing('/api/conversations/[id]', async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params;
+    await conversationStore.delete(getClientId(request.headers), id);
+    log.info('Deleted conversation', { conversationId: id });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, STORE_ERROR);
+  }
+});
@@ -0,0 +1,41 @@
+// app/api/conversations/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
+import { conversationStore } from '@/lib/conversation-store';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseConversationInput } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('conversations-api');
+
+const STORE_ERROR = {
+  code: ErrorCodes.CONVERSATION_STORE_FAILED,
+  error: 'Conversation storage failed',
+};
+
+export const GET = withRequestTracing('/api/conversations', async (request: NextRequest) => {
+  try {
+    const conversations = await conversationStore.list(getClientId(request.headers));
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, STORE_ERROR);
+  }
+});
+
+export const POST = withRequestTracing('/api/conversations', async (request: NextRequest) => {
+  try {
+    // An empty body is fine: the thread is named after its first query
+    const body = await request.json().catch(() => ({}));
+    const { title } = parseConversationInput(body, { requireTitle: false });
+
+    const conversation = await conversationStore.create(getClientId(request.headers), title);
+    log.info('Created conversation', { conversationId: conversation.id });
+
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, STORE_ERROR);
+  }
+});
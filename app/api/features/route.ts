@@ -0,0 +1,39 @@
+// app/api/features/route.ts
+import { NextResponse } from 'next/server';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { featureRegistry } from '@/lib/features';
+import { createLogger } from '@/lib/logger';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('features-api');
+
+export const GET = withRequestTracing('/api/features', async () => {
+  try {
+    // Prompts stay server-side; the extension only needs what it takes to build its menu
+    const features = featureRegistry.list().map((feature) => ({
+      id: feature.id,
+      label: feature.label,
+      description: feature.description,
+      requiredInputs: feature.requiredInputs,
+      defaultModel: feature.defaultModel,
+      fallbackModels: featureRegistry.getFallbackModels(feature),
+      maxTokens: feature.maxTokens,
+      longDocument: !!feature.longDocument,
+      structuredOutput: !!feature.structuredOutput,
+      citations: !!feature.citations,
+      multiPage: !!feature.multiPage,
+      translation: !!feature.translation,
+      refuseOnInjection: !!feature.refuseOnInjection,
+      voiceTriggers: feature.voiceTriggers || [],
+    }));
+
+    return NextResponse.json({ features });
+  } catch (error) {
+    log.failure('Failed to load features', error);
+
+    return errorResponse(error, {
+      code: ErrorCodes.FEATURE_CONFIG_INVALID,
+      error: 'Failed to load features',
+    });
+  }
+});
@@ -0,0 +1,32 @@
+// app/api/keys/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { apiKeyStore } from '@/lib/api-keys';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('keys-api');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Admin only; enforced by the proxy
+const KEYS_ERROR = {
+  code: ErrorCodes.AUTH_FAILED,
+  error: 'API key management failed',
+};
+
+/** Revokes the key. Tokens issued for it stop working too. */
+export const DELETE = withRequestTracing('/api/keys/[id]', async (_request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params;
+    const key = await apiKeyStore.revoke(id);
+    log.info('Revoked API key', { keyId: id });
+
+    return NextResponse.json(key);
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, KEYS_ERROR);
+  }
+});
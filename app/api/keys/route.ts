@@ -0,0 +1,40 @@
+// app/api/keys/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { apiKeyStore } from '@/lib/api-keys';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseApiKeyInput } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('keys-api');
+
+// Admin only; enforced by the proxy
+const KEYS_ERROR = {
+  code: ErrorCodes.AUTH_FAILED,
+  error: 'API key management failed',
+};
+
+export const GET = withRequestTracing('/api/keys', async () => {
+  try {
+    const keys = await apiKeyStore.list();
+    return NextResponse.json({ keys });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, KEYS_ERROR);
+  }
+});
+
+export const POST = withRequestTracing('/api/keys', async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { name } = parseApiKeyInput(body);
+
+    const issued = await apiKeyStore.issue(name);
+    log.info('Issued API key', { keyId: issued.id, name: issued.name });
+
+    return NextResponse.json(issued, { status: 201 });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, KEYS_ERROR);
+  }
+});
@@ -0,0 +1,25 @@
+// app/api/metrics/route.ts
+import { NextResponse } from 'next/server';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { metrics } from '@/lib/metrics';
+import { withRequestTracing } from '@/lib/request-tracing';
+
+const log = createLogger('metrics-api');
+
+/**
+ * Request counts and latencies by route, requests, tokens and latencies by
+ * feature, and upstream calls by model, since this server process started.
+ * Admin key only.
+ */
+export const GET = withRequestTracing('/api/metrics', async () => {
+  try {
+    return NextResponse.json(metrics.snapshot());
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, {
+      code: ErrorCodes.PROCESSING_FAILED,
+      error: 'Failed to read metrics',
+    });
+  }
+});
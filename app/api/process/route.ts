@@ -1,85 +1,74 @@
 // app/api/process/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
 import { groqHandler } from '@/lib/groq-handler';
+import { ApiError, ErrorCodes, errorResponse, toErrorBody } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseProcessRequest } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { wantsCacheBypass } from '@/lib/response-cache';
+import { createEventStream, SSE_HEADERS, wantsEventStream } from '@/lib/sse';
+import { recordStreamUsage, usageStore } from '@/lib/usage-store';
 
-export async function POST(request: NextRequest) {
+const log = createLogger('process-api');
+
+const PROCESS_ERROR = {
+  code: ErrorCodes.PROCESSING_FAILED,
+  error: 'Failed to process request',
+};
+
+export const POST = withRequestTracing('/api/process', async (request: NextRequest) => {
   try {
-    console.log('🔍 PROCESS API: Received request');
-    
-    const body = await request.json();
-    
-    console.log('📦 PROCESS API: Request body:', JSON.stringify(body, null, 2));
+    const body = await request.json().catch(() => {
+      throw new ApiError(ErrorCodes.INVALID_JSON, 'Request body must be valid JSON', 400);
+    });
 
-    const { 
-      action, 
-      feature, 
-      featurePrompt, 
-      conversationHistory, 
-      userQuery,
-      query,
-      pageInfo,
-      pageContext,
-      selectedText,
-      model
-    } = body;
+    const clientId = getClientId(request.headers);
+    const processRequest = { ...parseProcessRequest(body), bypassCache: wantsCacheBypass(request.headers), clientId };
+    const streaming = wantsEventStream(request) || !!processRequest.stream;
 
-    // Use userQuery if available, otherwise fall back to query
-    const finalQuery = userQuery || query;
+    // Page text and the query are redacted by the logger unless LOG_CONTENT is on
+    log.info('Processing request', {
+      feature: processRequest.feature,
+      provider: processRequest.provider,
+      model: processRequest.model,
+      streaming,
+      conversationId: processRequest.conversationId,
+      query: processRequest.query,
+      pageInfo: processRequest.pageInfo,
+      historyMessages: processRequest.conversationHistory?.length,
+    });
 
-    if (!feature || !finalQuery) {
-      return NextResponse.json({ 
-        error: 'Missing required fields',
-        received: { feature, userQuery, query: finalQuery },
-        required: ['feature', 'userQuery or query']
-      }, { status: 400 });
-    }
+    // Streaming mode: send deltas as Server-Sent Events
+    if (streaming) {
+      const events = recordStreamUsage(clientId, groqHandler.processRequestStream(processRequest), (done) => ({
+        feature: processRequest.feature,
+        model: done.model,
+        tokens: done.usage?.total_tokens,
+      }));
 
-    // Merge pageContext into pageInfo
-    const enhancedPageInfo = {
-      ...pageInfo,
-      ...pageContext,
-      selectedText: selectedText || pageInfo?.selectedText
-    };
+      const stream = createEventStream(
+        events,
+        (error) => {
+          log.failure('Stream failed', error);
+          return toErrorBody(error, PROCESS_ERROR);
+        }
+      );
 
-    console.log('📋 PROCESS API: Enhanced page info:', {
-      title: enhancedPageInfo?.title,
-      url: enhancedPageInfo?.url,
-      hasSelectedText: !!enhancedPageInfo?.selectedText,
-      hasMainText: !!enhancedPageInfo?.mainText
-    });
+      return new Response(stream, { status: 200, headers: SSE_HEADERS });
+    }
 
-    const result = await groqHandler.processRequest({
-      action,
-      feature,
-      featurePrompt,
-      conversationHistory,
-      query: finalQuery,
-      pageInfo: enhancedPageInfo,
-      model: model || 'openai/gpt-oss-120b'
+    const result = await groqHandler.processRequest(processRequest);
+    await usageStore.record(clientId, {
+      feature: processRequest.feature,
+      model: result.model,
+      tokens: result.usage?.total_tokens,
     });
 
-    console.log('✅ PROCESS API: Success');
-    
     return NextResponse.json(result);
-  } catch (error: any) {
-    console.error('❌ PROCESS API: Error:', error);
-    
-    return NextResponse.json({ 
-      error: 'Failed to process request',
-      message: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
-    }, { status: 500 });
-  }
-}
+  } catch (error) {
+    log.failure('Request failed', error);
 
-// Add OPTIONS handler for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
-}
\ No newline at end of file
+    return errorResponse(error, PROCESS_ERROR);
+  }
+});
@@ -0,0 +1,99 @@
+// app/api/speak/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
+import { groqHandler } from '@/lib/groq-handler';
+import { conversationStore } from '@/lib/conversation-store';
+import { ApiError, ErrorCodes, errorResponse, toErrorBody } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { parseSpeakRequest, type SpeakRequest } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { responseStore } from '@/lib/response-store';
+import { createEventStream, SSE_HEADERS, wantsEventStream } from '@/lib/sse';
+import { recordStreamUsage, usageStore } from '@/lib/usage-store';
+
+const log = createLogger('speak-api');
+
+const SPEAK_ERROR = {
+  code: ErrorCodes.SPEECH_FAILED,
+  error: 'Speech synthesis failed',
+};
+
+/** The text to speak: given directly, or a recent answer looked up by its response id. */
+async function resolveText(speakRequest: SpeakRequest, clientId: string): Promise<string> {
+  if (speakRequest.text) {
+    return speakRequest.text;
+  }
+
+  const responseId = speakRequest.responseId as string;
+  const recent = responseStore.get(responseId, clientId);
+  if (recent) {
+    return recent.text;
+  }
+
+  if (speakRequest.conversationId) {
+    const message = await conversationStore.getMessage(clientId, speakRequest.conversationId, responseId);
+    if (message?.type === 'assistant') {
+      return message.content;
+    }
+  }
+
+  throw new ApiError(
+    ErrorCodes.RESPONSE_NOT_FOUND,
+    `Response not found: ${responseId}. Recent answers are kept in memory only; pass conversationId for older ones`,
+    404
+  );
+}
+
+export const POST = withRequestTracing('/api/speak', async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError(ErrorCodes.INVALID_JSON, 'Request body must be valid JSON', 400);
+    });
+
+    const speakRequest = parseSpeakRequest(body);
+    const clientId = getClientId(request.headers);
+    const text = await resolveText(speakRequest, clientId);
+    const options = {
+      format: speakRequest.format,
+      model: speakRequest.model,
+      voice: speakRequest.voice,
+      speed: speakRequest.speed,
+      provider: speakRequest.provider,
+    };
+
+    // Streaming mode: one `audio` event per sentence chunk
+    if (wantsEventStream(request) || speakRequest.stream) {
+      const events = recordStreamUsage(clientId, groqHandler.synthesizeSpeechStream(text, options), (done) => ({
+        feature: 'speak',
+        model: done.model,
+      }));
+
+      const stream = createEventStream(events, (error) => {
+        log.failure('Stream failed', error);
+        return toErrorBody(error, SPEAK_ERROR);
+      });
+
+      return new Response(stream, { status: 200, headers: SSE_HEADERS });
+    }
+
+    const speech = await groqHandler.synthesizeSpeech(text, options);
+    await usageStore.record(clientId, { feature: 'speak', model: speech.model });
+
+    return new NextResponse(new Uint8Array(speech.audio), {
+      status: 200,
+      headers: {
+        'Content-Type': speech.mimeType,
+        'Content-Length': String(speech.audio.length),
+        'Content-Disposition': `inline; filename="speech.${speech.format}"`,
+        'X-Speech-Model': speech.model,
+        'X-Speech-Voice': speech.voice,
+        'X-Speech-Provider': speech.provider,
+        'X-Speech-Chunks': String(speech.chunks),
+      },
+    });
+  } catch (error) {
+    log.failure('Speech failed', error);
+
+    return errorResponse(error, SPEAK_ERROR);
+  }
+});
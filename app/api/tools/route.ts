@@ -0,0 +1,9 @@
+// app/api/tools/route.ts
+import { NextResponse } from 'next/server';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { toolRegistry } from '@/lib/tools';
+
+// Names to send in a request's `tools`, and what the model is told about each
+export const GET = withRequestTracing('/api/tools', async () =>
+  NextResponse.json({ tools: toolRegistry.specs(toolRegistry.names()) })
+);
@@ -1,70 +1,158 @@
 // app/api/transcribe/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
 import { groqHandler } from '@/lib/groq-handler';
+import { AudioUtils } from '@/lib/audio-utils';
+import { ApiError, ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { getProvider } from '@/lib/providers';
+import {
+  parseTranscribeJson,
+  parseTranscribeOptions,
+  type TranscribeOptions,
+} from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { wantsCacheBypass } from '@/lib/response-cache';
+import {
+  TRANSCRIPT_CONTENT_TYPES,
+  formatSrt,
+  formatVtt,
+  needsTimestamps,
+} from '@/lib/transcript-format';
+import { usageStore } from '@/lib/usage-store';
 
-export async function POST(request: NextRequest) {
-  try {
-    console.log('🔍 TRANSCRIBE API: Received request');
-    
-    const formData = await request.formData();
-    const audioFile = formData.get('audio') as File;
-    const model = formData.get('model') as string || 'whisper-large-v3-turbo';
-    const language = formData.get('language') as string || 'en';
-    const temperature = formData.get('temperature') as string || '0.0';
-
-    if (!audioFile) {
-      return NextResponse.json({ 
-        error: 'No audio file provided' 
-      }, { status: 400 });
-    }
+const log = createLogger('transcribe-api');
 
-    console.log('🎵 TRANSCRIBE API: Processing audio file:', {
-      name: audioFile.name,
-      type: audioFile.type,
-      size: audioFile.size
-    });
+interface TranscribeInput {
+  audioBuffer: Buffer;
+  mimeType: string;
+  options: TranscribeOptions;
+}
+
+// JSON body: { audio: "<base64 or data: URL>", mimeType, model, language, ... }
+async function readJsonInput(request: NextRequest): Promise<TranscribeInput> {
+  const body = await request.json().catch(() => {
+    throw new ApiError(ErrorCodes.INVALID_JSON, 'Request body must be valid JSON', 400);
+  });
+  const { audio, mimeType, options } = parseTranscribeJson(body);
+  const decoded = AudioUtils.decodeBase64Audio(audio, mimeType);
+
+  log.info('Received base64 audio', {
+    type: decoded.mimeType,
+    size: decoded.buffer.length
+  });
+
+  return { audioBuffer: decoded.buffer, mimeType: decoded.mimeType, options };
+}
+
+// Multipart body: audio file plus string fields
+async function readMultipartInput(request: NextRequest): Promise<TranscribeInput> {
+  const formData = await request.formData();
+  const audioFile = formData.get('audio');
+
+  if (!audioFile || typeof audioFile === 'string') {
+    throw new ApiError(ErrorCodes.MISSING_AUDIO, 'No audio file provided', 400);
+  }
+
+  log.info('Received audio file', {
+    name: audioFile.name,
+    type: audioFile.type,
+    size: audioFile.size
+  });
+
+  AudioUtils.assertAudioSize(audioFile.size);
+
+  const fields = Object.fromEntries(
+    [...formData.entries()].filter(([, value]) => typeof value === 'string')
+  );
 
-    // Convert File to Buffer
-    const arrayBuffer = await audioFile.arrayBuffer();
-    const audioBuffer = Buffer.from(arrayBuffer);
+  // Convert File to Buffer
+  const arrayBuffer = await audioFile.arrayBuffer();
 
-    const transcription = await groqHandler.transcribeAudio(
+  return {
+    audioBuffer: Buffer.from(arrayBuffer),
+    mimeType: audioFile.type,
+    options: parseTranscribeOptions(fields)
+  };
+}
+
+export const POST = withRequestTracing('/api/transcribe', async (request: NextRequest) => {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    const { audioBuffer, mimeType, options } = contentType.includes('application/json')
+      ? await readJsonInput(request)
+      : await readMultipartInput(request);
+
+    const provider = getProvider(options.provider);
+    const model = options.model || provider.defaultTranscriptionModel;
+    const language = options.language || 'en';
+    const detectLanguage = language === 'auto';
+    const format = options.format || 'json';
+
+    const result = await groqHandler.transcribeAudio(
       audioBuffer,
-      audioFile.type,
+      mimeType,
       {
         model,
         language,
-        temperature: parseFloat(temperature)
+        prompt: options.prompt,
+        temperature: options.temperature ?? 0.0,
+        provider: provider.name,
+        response_format: needsTimestamps(format) ? 'verbose_json' : 'json',
+        bypassCache: wantsCacheBypass(request.headers),
       }
     );
 
-    console.log('✅ TRANSCRIBE API: Transcription successful');
-    
-    return NextResponse.json({ 
-      transcription,
+    log.info('Transcription successful', {
+      format,
+      model: result.model,
+      duration: result.duration,
+      language: detectLanguage ? result.language : undefined,
+    });
+
+    await usageStore.record(getClientId(request.headers), {
+      feature: 'transcribe',
+      model: result.model,
+      // Cached transcriptions did not use any upstream audio time
+      audioSeconds: result.cache?.status === 'hit' ? 0 : result.duration,
+    });
+
+    if (format === 'text' || format === 'srt' || format === 'vtt') {
+      const body =
+        format === 'srt' ? formatSrt(result.segments || [])
+        : format === 'vtt' ? formatVtt(result.segments || [])
+        : result.text;
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': TRANSCRIPT_CONTENT_TYPES[format],
+          'X-Cache': result.cache?.status || 'skip',
+          'X-Transcription-Model': result.model,
+          ...(result.language && { 'Content-Language': result.language }),
+        },
+      });
+    }
+
+    return NextResponse.json({
+      transcription: result.text,
       success: true,
-      model,
-      language
+      model: result.model,
+      fallback: result.fallback,
+      provider: provider.name,
+      language: result.language || (detectLanguage ? undefined : language),
+      languageDetected: detectLanguage || undefined,
+      duration: result.duration,
+      chunks: result.chunks,
+      segments: result.segments,
+      words: result.words,
+      cache: result.cache
     });
-  } catch (error: any) {
-    console.error('❌ TRANSCRIBE API: Error:', error);
-    
-    return NextResponse.json({ 
+  } catch (error) {
+    log.failure('Transcription failed', error);
+
+    return errorResponse(error, {
+      code: ErrorCodes.TRANSCRIPTION_FAILED,
       error: 'Transcription failed',
-      message: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
-    }, { status: 500 });
+    });
   }
-}
-
-// Handle OPTIONS for CORS
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
-}
\ No newline at end of file
+});
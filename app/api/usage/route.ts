@@ -0,0 +1,43 @@
+// app/api/usage/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_METHOD_HEADER, getClientId } from '@/lib/auth';
+import { ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { rateLimiter } from '@/lib/rate-limiter';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { usageStore } from '@/lib/usage-store';
+
+const log = createLogger('usage-api');
+
+const USAGE_ERROR = {
+  code: ErrorCodes.PROCESSING_FAILED,
+  error: 'Failed to read usage',
+};
+
+/**
+ * Today's and this month's usage by feature and model, with quota status.
+ * Clients see their own usage; the admin key sees every client, or one
+ * with `?clientId=`.
+ */
+export const GET = withRequestTracing('/api/usage', async (request: NextRequest) => {
+  try {
+    const isAdmin = request.headers.get(AUTH_METHOD_HEADER) === 'admin';
+    const requested = request.nextUrl.searchParams.get('clientId');
+
+    const clientIds = !isAdmin
+      ? [getClientId(request.headers)]
+      : requested
+        ? [requested]
+        : await usageStore.listClients();
+
+    const clients = await Promise.all(clientIds.map((clientId) => usageStore.getReport(clientId)));
+
+    return NextResponse.json({
+      rateLimit: { requestsPerMinute: rateLimiter.getLimit() },
+      clients,
+    });
+  } catch (error) {
+    log.failure('Request failed', error);
+    return errorResponse(error, USAGE_ERROR);
+  }
+});
@@ -0,0 +1,80 @@
+// app/api/voice/route.test.ts
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { processRequest } = vi.hoisted(() => ({ processRequest: vi.fn() }));
+
+vi.mock('@/lib/groq-handler', () => ({
+  groqHandler: {
+    transcribeAudio: vi.fn(async () => ({ text: 'Go ahead', model: 'mock-whisper', chunks: 1 })),
+    processRequest,
+  },
+}));
+
+vi.mock('@/lib/usage-store', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/usage-store')>()),
+  usageStore: { record: vi.fn() },
+}));
+
+import { POST } from './route';
+
+const PAGE = { title: 'Release notes', url: 'https://example.com/notes', mainText: 'Version 2 adds offline mode.' };
+
+function multipartRequest(fields: Record<string, string>) {
+  const form = new FormData();
+  form.append('audio', new File([new Uint8Array(256)], 'command.webm', { type: 'audio/webm' }));
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  return new NextRequest('http://localhost/api/voice', { method: 'POST', body: form });
+}
+
+describe('POST /api/voice with a multipart body', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    processRequest.mockReset();
+    processRequest.mockResolvedValue({ response: 'Done', model: 'mock-chat' });
+  });
+
+  it('reads citations and restorePii as booleans', async () => {
+    const response = await POST(
+      multipartRequest({ feature: 'summarize', pageInfo: JSON.stringify(PAGE), citations: 'true', restorePii: '1' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(processRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ feature: 'summarize', citations: true, restorePii: true })
+    );
+  });
+
+  it('reads schema as JSON and csv as a boolean', async () => {
+    const schema = {
+      type: 'object',
+      properties: { rows: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } } },
+    };
+    const response = await POST(
+      multipartRequest({ feature: 'extract', pageInfo: JSON.stringify(PAGE), schema: JSON.stringify(schema), csv: 'true' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(processRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ feature: 'extract', schema, schemaName: 'custom', csv: true })
+    );
+  });
+
+  it('reads pages as JSON', async () => {
+    const pages = [PAGE, { title: 'Old notes', mainText: 'Version 1 was online only.' }];
+    const response = await POST(multipartRequest({ feature: 'compare', pages: JSON.stringify(pages) }));
+
+    expect(response.status).toBe(200);
+    expect(processRequest).toHaveBeenCalledWith(expect.objectContaining({ feature: 'compare', pages }));
+  });
+
+  it('rejects a JSON field that does not parse', async () => {
+    const response = await POST(multipartRequest({ feature: 'extract', schema: '{ not json' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_JSON' });
+    expect(processRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+// app/api/voice/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth';
+import { groqHandler } from '@/lib/groq-handler';
+import { AudioUtils } from '@/lib/audio-utils';
+import { ApiError, ErrorCodes, errorResponse, toErrorBody } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { normalizeLanguage } from '@/lib/languages';
+import { getProvider } from '@/lib/providers';
+import { assertRequiredInputs, parseVoiceRequest, type ProcessRequest } from '@/lib/request-schema';
+import { withRequestTracing } from '@/lib/request-tracing';
+import { wantsCacheBypass } from '@/lib/response-cache';
+import { createEventStream, SSE_HEADERS, wantsEventStream } from '@/lib/sse';
+import { recordStreamUsage, usageStore } from '@/lib/usage-store';
+import { detectVoiceIntent, type VoiceIntent } from '@/lib/voice-intent';
+
+const log = createLogger('voice-api');
+
+const VOICE_ERROR = {
+  code: ErrorCodes.VOICE_COMMAND_FAILED,
+  error: 'Voice command failed',
+};
+
+// Form fields that carry JSON rather than plain strings
+const JSON_FIELDS = ['pageInfo', 'pageContext', 'pages', 'conversationHistory', 'schema', 'tools'];
+const BOOLEAN_FIELDS = ['stream', 'longDocument', 'csv', 'citations', 'restorePii'];
+
+interface VoiceInput {
+  audioBuffer: Buffer;
+  mimeType: string;
+  body: Record<string, unknown>;
+}
+
+// JSON body: { audio: "<base64 or data: URL>", mimeType, pageInfo, ... }
+async function readJsonInput(request: NextRequest): Promise<VoiceInput> {
+  const body = await request.json().catch(() => {
+    throw new ApiError(ErrorCodes.INVALID_JSON, 'Request body must be valid JSON', 400);
+  });
+
+  if (typeof body?.audio !== 'string' || !body.audio) {
+    throw new ApiError(ErrorCodes.MISSING_AUDIO, 'No audio provided', 400);
+  }
+
+  const decoded = AudioUtils.decodeBase64Audio(body.audio, typeof body.mimeType === 'string' ? body.mimeType : undefined);
+  return { audioBuffer: decoded.buffer, mimeType: decoded.mimeType, body };
+}
+
+// Multipart body: audio file plus fields, with pageInfo etc. as JSON strings
+async function readMultipartInput(request: NextRequest): Promise<VoiceInput> {
+  const formData = await request.formData();
+  const audioFile = formData.get('audio');
+
+  if (!audioFile || typeof audioFile === 'string') {
+    throw new ApiError(ErrorCodes.MISSING_AUDIO, 'No audio file provided', 400);
+  }
+
+  AudioUtils.assertAudioSize(audioFile.size);
+
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of formData.entries()) {
+    if (typeof value !== 'string' || key === 'audio') continue;
+
+    if (JSON_FIELDS.includes(key)) {
+      try {
+        body[key] = JSON.parse(value);
+      } catch {
+        throw new ApiError(ErrorCodes.INVALID_JSON, `Form field "${key}" must be valid JSON`, 400);
+      }
+    } else if (BOOLEAN_FIELDS.includes(key)) {
+      body[key] = value === 'true' || value === '1';
+    } else {
+      body[key] = value;
+    }
+  }
+
+  return {
+    audioBuffer: Buffer.from(await audioFile.arrayBuffer()),
+    mimeType: audioFile.type,
+    body,
+  };
+}
+
+async function* voiceEvents(
+  clientId: string,
+  transcript: { transcription: string; transcriptionModel: string; transcriptionLanguage?: string },
+  intent: VoiceIntent,
+  processRequest: ProcessRequest
+) {
+  yield { type: 'transcript' as const, ...transcript, intent };
+  yield* recordStreamUsage(clientId, groqHandler.processRequestStream(processRequest), (done) => ({
+    feature: processRequest.feature,
+    model: done.model,
+    tokens: done.usage?.total_tokens,
+  }));
+}
+
+export const POST = withRequestTracing('/api/voice', async (request: NextRequest) => {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    const { audioBuffer, mimeType, body } = contentType.includes('application/json')
+      ? await readJsonInput(request)
+      : await readMultipartInput(request);
+
+    // Validate everything before spending a transcription on it
+    const voiceRequest = parseVoiceRequest(body);
+    const provider = getProvider(voiceRequest.request.provider);
+    const transcriptionModel = voiceRequest.transcription.model || provider.defaultTranscriptionModel;
+    const clientId = getClientId(request.headers);
+    const bypassCache = wantsCacheBypass(request.headers);
+
+    const detectLanguage = voiceRequest.transcription.language === 'auto';
+    const transcript = await groqHandler.transcribeAudio(audioBuffer, mimeType, {
+      model: transcriptionModel,
+      language: voiceRequest.transcription.language || 'en',
+      prompt: voiceRequest.transcription.prompt,
+      temperature: 0.0,
+      provider: provider.name,
+      bypassCache,
+    });
+    await usageStore.record(clientId, {
+      feature: 'voice',
+      model: transcript.model,
+      audioSeconds: transcript.cache?.status === 'hit' ? 0 : transcript.duration,
+    });
+
+    const intent = detectVoiceIntent(transcript.text, voiceRequest.request, voiceRequest.feature);
+    // A detected language is also the one to answer in, unless the request chose one
+    const transcriptionLanguage = detectLanguage ? transcript.language : undefined;
+    const processRequest: ProcessRequest = {
+      ...voiceRequest.request,
+      feature: intent.feature,
+      query: intent.query,
+      responseLanguage: voiceRequest.request.responseLanguage || (transcriptionLanguage && normalizeLanguage(transcriptionLanguage)),
+      bypassCache,
+      clientId,
+    };
+    assertRequiredInputs(processRequest);
+
+    log.info('Resolved spoken command', {
+      transcription: transcript.text,
+      feature: intent.feature,
+      source: intent.source,
+      trigger: intent.trigger,
+    });
+
+    // Streaming mode: a transcript event first, then the usual process events
+    if (wantsEventStream(request) || processRequest.stream) {
+      const stream = createEventStream(
+        voiceEvents(
+          clientId,
+          { transcription: transcript.text, transcriptionModel: transcript.model, transcriptionLanguage },
+          intent,
+          processRequest
+        ),
+        (error) => {
+          log.failure('Stream failed', error);
+          return toErrorBody(error, VOICE_ERROR);
+        }
+      );
+
+      return new Response(stream, { status: 200, headers: SSE_HEADERS });
+    }
+
+    const result = await groqHandler.processRequest(processRequest);
+    await usageStore.record(clientId, {
+      feature: processRequest.feature,
+      model: result.model,
+      tokens: result.usage?.total_tokens,
+    });
+
+    return NextResponse.json({
+      transcription: transcript.text,
+      transcriptionModel: transcript.model,
+      transcriptionLanguage,
+      intent,
+      ...result,
+    });
+  } catch (error) {
+    log.failure('Voice command failed', error);
+
+    return errorResponse(error, VOICE_ERROR);
+  }
+});
@@ -279,14 +279,18 @@ export default function Home() {
               <p className="text-gray-600 text-sm mb-2">Process AI requests for explanation, summarization, etc.</p>
               <div className="bg-gray-50 p-3 rounded text-xs font-mono">
                 {`{
-  "feature": "explain|summarize|extract|search|ask|reply",
+  "feature": "explain|summarize|... (GET /api/features)",
   "query": "your question or request",
   "pageInfo": {
     "title": "page title",
     "url": "page url", 
     "selectedText": "selected text"
   }
-}`}
+}
+
+// Errors:
+{ "error": "message", "code": "VALIDATION_FAILED",
+  "issues": [{ "path": "feature", "code": "INVALID_VALUE" }] }`}
               </div>
             </div>
             <div>
@@ -297,10 +301,11 @@ export default function Home() {
 audio: File/Blob
 model: string
 language: string
+format: json|text|verbose_json|srt|vtt
 
 // OR JSON:
 {
-  "audio": "base64string",
+  "audio": "base64 or data:audio/webm;base64,...",
   "mimeType": "audio/wav",
   "model": "whisper-large-v3-turbo"
 }`}
@@ -0,0 +1,139 @@
+// lib/api-keys.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ApiError, ErrorCodes } from './errors';
+
+const DEFAULT_FILE = '.data/api-keys.json';
+const KEY_PREFIX = 'aik_';
+
+export interface ApiKeyRecord {
+  id: string;
+  /** Label for the install, e.g. "Chrome – work laptop" */
+  name: string;
+  /** SHA-256 of the key; the key itself is only shown when issued */
+  hash: string;
+  /** First characters of the key, to recognize it in listings */
+  preview: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>;
+
+interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function summarize(record: ApiKeyRecord): ApiKeySummary {
+  const { id, name, preview, createdAt, revokedAt } = record;
+  return { id, name, preview, createdAt, revokedAt };
+}
+
+/**
+ * Per-install API keys in one JSON file (`API_KEYS_FILE`, default
+ * `.data/api-keys.json`). Only hashes are stored. The file is re-read when
+ * it changes, so keys issued or revoked by one worker apply to all of them.
+ */
+export class ApiKeyStore {
+  private cache: { mtime: number; keys: ApiKeyRecord[] } | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  private getPath() {
+    return path.resolve(process.cwd(), process.env.API_KEYS_FILE || DEFAULT_FILE);
+  }
+
+  private async read(): Promise<ApiKeyRecord[]> {
+    const filePath = this.getPath();
+    let mtime: number;
+    try {
+      mtime = (await fs.promises.stat(filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    if (this.cache?.mtime !== mtime) {
+      const file = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as ApiKeyFile;
+      this.cache = { mtime, keys: Array.isArray(file.keys) ? file.keys : [] };
+    }
+    return this.cache.keys;
+  }
+
+  private async write(keys: ApiKeyRecord[]) {
+    const filePath = this.getPath();
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify({ keys } satisfies ApiKeyFile, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempPath, filePath);
+    this.cache = null;
+  }
+
+  /** Runs read-modify-write operations one at a time. */
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.writing.catch(() => undefined).then(task);
+    this.writing = next;
+    return next;
+  }
+
+  /** Creates a key. The returned `key` is not stored and cannot be shown again. */
+  issue(name: string): Promise<ApiKeySummary & { key: string }> {
+    return this.withLock(async () => {
+      const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+      const record: ApiKeyRecord = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        hash: hashKey(key),
+        preview: key.slice(0, KEY_PREFIX.length + 6),
+        createdAt: new Date().toISOString(),
+      };
+
+      await this.write([...(await this.read()), record]);
+      return { ...summarize(record), key };
+    });
+  }
+
+  async list(): Promise<ApiKeySummary[]> {
+    return (await this.read()).map(summarize);
+  }
+
+  async get(id: string): Promise<ApiKeySummary | undefined> {
+    const record = (await this.read()).find((candidate) => candidate.id === id);
+    return record && summarize(record);
+  }
+
+  /** Finds the record for a presented key, revoked or not. */
+  async findByKey(key: string): Promise<ApiKeySummary | undefined> {
+    if (!key.startsWith(KEY_PREFIX)) return undefined;
+    const hash = hashKey(key);
+    const record = (await this.read()).find((candidate) => candidate.hash === hash);
+    return record && summarize(record);
+  }
+
+  revoke(id: string): Promise<ApiKeySummary> {
+    return this.withLock(async () => {
+      const keys = await this.read();
+      const record = keys.find((candidate) => candidate.id === id);
+      if (!record) {
+        throw new ApiError(ErrorCodes.API_KEY_NOT_FOUND, `API key not found: ${id}`, 404);
+      }
+
+      if (!record.revokedAt) {
+        record.revokedAt = new Date().toISOString();
+        await this.write(keys);
+      }
+      return summarize(record);
+    });
+  }
+}
+
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith(KEY_PREFIX);
+}
+
+// Export a singleton instance
+export const apiKeyStore = new ApiKeyStore();
@@ -0,0 +1,274 @@
+// lib/audio-processor.ts
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioUtils } from './audio-utils';
+import { ApiError, ErrorCodes } from './errors';
+import { createLogger } from './logger';
+import type { SpeechFormat } from './providers';
+
+const log = createLogger('audio-processor');
+
+// Normalized audio: 16 kHz mono, which is what Whisper resamples to anyway
+const SAMPLE_RATE = 16000;
+const WAV_BYTES_PER_SECOND = SAMPLE_RATE * 2;
+const WAV_HEADER_BYTES = 44;
+
+// Stay under Groq's 25 MB upload limit with room for multipart overhead
+const DEFAULT_MAX_CHUNK_BYTES = 24 * 1024 * 1024;
+
+// A pause must be this quiet and this long to count as a split point
+const SILENCE_NOISE = '-35dB';
+const SILENCE_MIN_SECONDS = 0.4;
+
+export interface AudioChunk {
+  buffer: Buffer;
+  mimeType: string;
+  fileExtension: string;
+  /** Offset of the chunk in the original recording, in seconds */
+  start: number;
+  end: number;
+}
+
+export interface PreparedAudio {
+  chunks: AudioChunk[];
+  duration: number;
+  sourceFormat: string | null;
+}
+
+const ENCODERS: Record<SpeechFormat, { codec: string; format: string }> = {
+  mp3: { codec: 'libmp3lame', format: 'mp3' },
+  wav: { codec: 'pcm_s16le', format: 'wav' },
+  ogg: { codec: 'libopus', format: 'ogg' },
+  flac: { codec: 'flac', format: 'flac' },
+};
+
+interface Silence {
+  start: number;
+  end: number;
+}
+
+/**
+ * Uses the bundled ffmpeg to decode whatever the browser recorded, normalize
+ * it to 16 kHz mono FLAC and, when the result is still over the upload
+ * limit, split it at pauses into chunks that each fit.
+ */
+export class AudioProcessor {
+  private configured = false;
+
+  isAvailable(): boolean {
+    if (process.env.AUDIO_NORMALIZE === 'false') {
+      return false;
+    }
+
+    if (!this.configured) {
+      if (!ffmpegInstaller.path || !fs.existsSync(ffmpegInstaller.path)) {
+        return false;
+      }
+      ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+      this.configured = true;
+    }
+
+    return true;
+  }
+
+  getMaxChunkBytes(): number {
+    const configured = parseInt(process.env.TRANSCRIBE_CHUNK_BYTES || '', 10);
+    return configured > 0 ? configured : DEFAULT_MAX_CHUNK_BYTES;
+  }
+
+  async prepare(audioBuffer: Buffer): Promise<PreparedAudio> {
+    const sourceFormat = AudioUtils.detectAudioFormat(audioBuffer);
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audio-'));
+
+    try {
+      const inputPath = path.join(workDir, 'input');
+      const wavPath = path.join(workDir, 'normalized.wav');
+      const flacPath = path.join(workDir, 'normalized.flac');
+
+      await fs.promises.writeFile(inputPath, audioBuffer);
+
+      try {
+        await this.run(
+          ffmpeg(inputPath)
+            .noVideo()
+            .audioChannels(1)
+            .audioFrequency(SAMPLE_RATE)
+            .audioCodec('pcm_s16le')
+            .format('wav'),
+          wavPath
+        );
+      } catch (error) {
+        log.warn('ffmpeg could not decode input', { sourceFormat, error });
+        throw new ApiError(
+          ErrorCodes.UNSUPPORTED_AUDIO_FORMAT,
+          `Could not decode audio${sourceFormat ? ` (${sourceFormat})` : ''}`,
+          415
+        );
+      }
+
+      const wavSize = (await fs.promises.stat(wavPath)).size;
+      const duration = Math.max(0, wavSize - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND;
+
+      await this.run(ffmpeg(wavPath).audioCodec('flac').format('flac'), flacPath);
+      const flac = await fs.promises.readFile(flacPath);
+      const maxChunkBytes = this.getMaxChunkBytes();
+
+      log.info('Normalized audio', {
+        sourceFormat,
+        inputBytes: audioBuffer.length,
+        flacBytes: flac.length,
+        duration: Number(duration.toFixed(2)),
+      });
+
+      if (flac.length <= maxChunkBytes) {
+        return {
+          chunks: [{ buffer: flac, mimeType: 'audio/flac', fileExtension: 'flac', start: 0, end: duration }],
+          duration,
+          sourceFormat,
+        };
+      }
+
+      // Leave 10% headroom: FLAC compresses speech and silence unevenly
+      const bytesPerSecond = flac.length / duration;
+      const targetSeconds = Math.max(1, Math.floor((maxChunkBytes * 0.9) / bytesPerSecond));
+      const silences = await this.detectSilences(wavPath);
+      const ranges = this.planChunks(duration, targetSeconds, silences);
+
+      log.info('Splitting long recording', {
+        chunks: ranges.length,
+        targetSeconds,
+        silencesFound: silences.length,
+      });
+
+      const chunks: AudioChunk[] = [];
+      for (const [index, range] of ranges.entries()) {
+        const chunkPath = path.join(workDir, `chunk-${index}.flac`);
+        await this.run(
+          ffmpeg(wavPath)
+            .seekInput(range.start)
+            .duration(range.end - range.start)
+            .audioCodec('flac')
+            .format('flac'),
+          chunkPath
+        );
+
+        chunks.push({
+          buffer: await fs.promises.readFile(chunkPath),
+          mimeType: 'audio/flac',
+          fileExtension: 'flac',
+          start: range.start,
+          end: range.end,
+        });
+      }
+
+      return { chunks, duration, sourceFormat };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Joins audio clips end to end and encodes the result as `format`. Used to
+   * turn per-sentence speech into one file, or to convert a single clip
+   * from whatever the TTS backend produced.
+   */
+  async convert(clips: Buffer[], format: SpeechFormat): Promise<Buffer> {
+    if (!this.isAvailable()) {
+      throw new ApiError(
+        ErrorCodes.AUDIO_CONVERSION_UNAVAILABLE,
+        `Converting speech to ${format} needs ffmpeg, which is disabled or missing`,
+        501
+      );
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'speech-'));
+
+    try {
+      const command = ffmpeg();
+      for (const [index, clip] of clips.entries()) {
+        const clipPath = path.join(workDir, `clip-${index}`);
+        await fs.promises.writeFile(clipPath, clip);
+        command.input(clipPath);
+      }
+
+      const inputs = clips.map((_, index) => `[${index}:a]`).join('');
+      const outputPath = path.join(workDir, `speech.${format}`);
+
+      await this.run(
+        command
+          .complexFilter(`${inputs}concat=n=${clips.length}:v=0:a=1[out]`)
+          .outputOptions('-map', '[out]')
+          .audioCodec(ENCODERS[format].codec)
+          .format(ENCODERS[format].format),
+        outputPath
+      );
+
+      return await fs.promises.readFile(outputPath);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Picks chunk boundaries no longer than `targetSeconds`, cutting in the
+   * middle of the latest pause in the second half of each window, or hard
+   * at the window end when there is none.
+   */
+  private planChunks(duration: number, targetSeconds: number, silences: Silence[]) {
+    const ranges: Array<{ start: number; end: number }> = [];
+    let start = 0;
+
+    while (duration - start > targetSeconds) {
+      const windowEnd = start + targetSeconds;
+      const pause = silences
+        .map((silence) => (silence.start + silence.end) / 2)
+        .filter((midpoint) => midpoint > start + targetSeconds / 2 && midpoint <= windowEnd)
+        .pop();
+
+      const end = pause ?? windowEnd;
+      ranges.push({ start, end });
+      start = end;
+    }
+
+    ranges.push({ start, end: duration });
+    return ranges;
+  }
+
+  private detectSilences(wavPath: string): Promise<Silence[]> {
+    return new Promise((resolve, reject) => {
+      const silences: Silence[] = [];
+      let pendingStart: number | null = null;
+
+      ffmpeg(wavPath)
+        .audioFilters(`silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_SECONDS}`)
+        .format('null')
+        .on('stderr', (line: string) => {
+          const start = line.match(/silence_start: ([\d.]+)/);
+          const end = line.match(/silence_end: ([\d.]+)/);
+          if (start) pendingStart = parseFloat(start[1]);
+          if (end && pendingStart !== null) {
+            silences.push({ start: pendingStart, end: parseFloat(end[1]) });
+            pendingStart = null;
+          }
+        })
+        .on('end', () => resolve(silences))
+        .on('error', reject)
+        .save('-');
+    });
+  }
+
+  private run(command: ffmpeg.FfmpegCommand, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      command
+        .on('end', () => resolve())
+        .on('error', reject)
+        .save(outputPath);
+    });
+  }
+}
+
+// Export a singleton instance
+export const audioProcessor = new AudioProcessor();
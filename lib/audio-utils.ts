@@ -1,3 +1,11 @@
+import { ApiError, ErrorCodes } from './errors';
+import { createLogger } from './logger';
+
+const log = createLogger('audio');
+
+// Request limit; recordings over the upstream upload limit are split by AudioProcessor
+const DEFAULT_MAX_AUDIO_BYTES = 100 * 1024 * 1024;
+
 export class AudioUtils {
   static validateAudioFormat(mimeType: string): boolean {
     const supportedFormats = [
@@ -6,9 +14,10 @@ export class AudioUtils {
       'audio/webm;codecs=opus',
       'audio/mpeg',
       'audio/mp4',
-      'audio/ogg'
+      'audio/ogg',
+      'audio/flac'
     ];
-    
+
     return supportedFormats.includes(mimeType);
   }
 
@@ -18,9 +27,97 @@ export class AudioUtils {
       'audio/webm': 'webm',
       'audio/mpeg': 'mp3',
       'audio/mp4': 'm4a',
-      'audio/ogg': 'ogg'
+      'audio/ogg': 'ogg',
+      'audio/flac': 'flac'
     };
-    
+
     return extensions[mimeType] || 'wav';
   }
-}
\ No newline at end of file
+
+  static getMaxAudioBytes(): number {
+    const configured = parseInt(process.env.TRANSCRIBE_MAX_BYTES || '', 10);
+    return configured > 0 ? configured : DEFAULT_MAX_AUDIO_BYTES;
+  }
+
+  static assertAudioSize(bytes: number) {
+    const maxBytes = this.getMaxAudioBytes();
+    if (bytes > maxBytes) {
+      throw new ApiError(
+        ErrorCodes.AUDIO_TOO_LARGE,
+        `Audio is ${bytes} bytes; the limit is ${maxBytes} bytes`,
+        413,
+        { maxBytes }
+      );
+    }
+  }
+
+  /**
+   * Identifies the container from its magic bytes. Returns null when the
+   * data doesn't look like any audio format we accept.
+   */
+  static detectAudioFormat(buffer: Buffer): string | null {
+    if (buffer.length < 12) return null;
+
+    const ascii = (start: number, end: number) => buffer.toString('latin1', start, end);
+
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+    if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+    if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+    if (ascii(4, 8) === 'ftyp') return 'audio/mp4';
+    if (buffer.readUInt32BE(0) === 0x1a45dfa3) return 'audio/webm';
+    if (ascii(0, 3) === 'ID3') return 'audio/mpeg';
+    // MPEG audio frame sync (11 set bits)
+    if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return 'audio/mpeg';
+
+    return null;
+  }
+
+  /**
+   * Decodes a base64 audio payload, either raw base64 or a `data:` URL
+   * (`data:audio/webm;codecs=opus;base64,...`). The size limit is checked
+   * before decoding, and the decoded bytes must be a recognizable audio
+   * container. The sniffed format wins if it disagrees with the declared one.
+   */
+  static decodeBase64Audio(input: string, declaredMimeType?: string) {
+    let payload = input.trim();
+    let mimeType = declaredMimeType;
+
+    const dataUrl = payload.match(/^data:([^,]*?)(;base64)?,/i);
+    if (dataUrl) {
+      if (!dataUrl[2]) {
+        throw new ApiError(ErrorCodes.INVALID_AUDIO_ENCODING, 'Audio data URL must be base64 encoded', 400);
+      }
+      mimeType = mimeType || dataUrl[1] || undefined;
+      payload = payload.slice(dataUrl[0].length);
+    }
+
+    payload = payload.replace(/\s+/g, '');
+    if (!payload || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(payload)) {
+      throw new ApiError(ErrorCodes.INVALID_AUDIO_ENCODING, 'Audio is not valid base64', 400);
+    }
+
+    this.assertAudioSize(Math.floor((payload.length * 3) / 4));
+
+    const buffer = Buffer.from(payload, payload.includes('-') || payload.includes('_') ? 'base64url' : 'base64');
+    const detected = this.detectAudioFormat(buffer);
+
+    if (!detected) {
+      throw new ApiError(
+        ErrorCodes.UNSUPPORTED_AUDIO_FORMAT,
+        'Decoded audio is not a recognized format (expected wav, webm, ogg, mp3, mp4 or flac)',
+        415
+      );
+    }
+
+    const declaredBase = mimeType?.split(';')[0].trim().toLowerCase();
+    if (declaredBase !== detected) {
+      log.info('Declared type does not match content, using sniffed type', {
+        declared: mimeType,
+        detected,
+      });
+      mimeType = detected;
+    }
+
+    return { buffer, mimeType: mimeType || detected };
+  }
+}
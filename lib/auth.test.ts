@@ -0,0 +1,105 @@
+// lib/auth.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiKeyStore } from './api-keys';
+import { authenticate, isOriginAllowed, issueToken } from './auth';
+import { ApiError } from './errors';
+
+const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+
+function bearer(credential: string): Headers {
+  return new Headers({ authorization: `Bearer ${credential}` });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ApiError> {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(ApiError);
+  return error as ApiError;
+}
+
+afterAll(() => {
+  fs.rmSync(keysDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('signed tokens', () => {
+  let keyId: string;
+
+  beforeAll(async () => {
+    vi.stubEnv('API_KEYS_FILE', path.join(keysDir, 'keys.json'));
+    keyId = (await apiKeyStore.issue('Test install')).id;
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('API_KEYS_FILE', path.join(keysDir, 'keys.json'));
+    vi.stubEnv('AUTH_TOKEN_SECRET', 'test-secret');
+  });
+
+  it('authenticate a token for the key they were issued for', async () => {
+    const { token } = issueToken(keyId);
+    expect(await authenticate(bearer(token))).toEqual({ clientId: keyId, method: 'token' });
+  });
+
+  it('are rejected once tampered with or signed with another secret', async () => {
+    const { token } = issueToken(keyId);
+    const [payload, signature] = token.split('.');
+    const forged = `${payload.slice(0, -2)}xx.${signature}`;
+
+    expect((await rejection(authenticate(bearer(forged)))).message).toBe('Invalid token');
+
+    vi.stubEnv('AUTH_TOKEN_SECRET', 'rotated-secret');
+    expect((await rejection(authenticate(bearer(token)))).status).toBe(401);
+  });
+
+  it('expire after their lifetime', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const issued = issueToken(keyId, 60);
+    expect(issued.expiresAt).toBe('2026-01-01T00:01:00.000Z');
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    await expect(authenticate(bearer(issued.token))).resolves.toMatchObject({ clientId: keyId });
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect((await rejection(authenticate(bearer(issued.token)))).message).toBe('Token expired');
+  });
+
+  it('stop working when their key is revoked', async () => {
+    const revoked = await apiKeyStore.issue('Revoked install');
+    const { token } = issueToken(revoked.id);
+    await apiKeyStore.revoke(revoked.id);
+
+    expect((await rejection(authenticate(bearer(token)))).status).toBe(403);
+  });
+});
+
+describe('isOriginAllowed', () => {
+  it('allows only extension origins when ALLOWED_ORIGINS is unset', () => {
+    vi.stubEnv('ALLOWED_ORIGINS', '');
+
+    expect(isOriginAllowed('chrome-extension://abcdefghijklmnop')).toBe(true);
+    expect(isOriginAllowed('https://evil.example')).toBe(false);
+  });
+
+  it('always allows the server its own origin', () => {
+    vi.stubEnv('ALLOWED_ORIGINS', 'https://app.example.com');
+
+    expect(isOriginAllowed('http://localhost:3000', 'http://localhost:3000')).toBe(true);
+    expect(isOriginAllowed('http://localhost:3000', 'http://localhost:4000')).toBe(false);
+  });
+
+  it('allows listed origins, ignoring spaces and trailing slashes, or any with *', () => {
+    vi.stubEnv('ALLOWED_ORIGINS', ' https://app.example.com/ , chrome-extension://abc');
+
+    expect(isOriginAllowed('https://app.example.com')).toBe(true);
+    expect(isOriginAllowed('chrome-extension://other')).toBe(false);
+
+    vi.stubEnv('ALLOWED_ORIGINS', '*');
+    expect(isOriginAllowed('https://anyone.example')).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+// lib/auth.ts
+import crypto from 'crypto';
+import { apiKeyStore, isApiKey } from './api-keys';
+import { ApiError, ErrorCodes } from './errors';
+import { createLogger } from './logger';
+import { RATE_LIMIT_HEADER_NAMES } from './rate-limiter';
+import { QUOTA_HEADER_NAMES } from './usage-store';
+
+const log = createLogger('auth');
+
+const TOKEN_PREFIX = 'ait_';
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+const MAX_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Set by the proxy on every request it lets through; incoming values are discarded. */
+export const CLIENT_ID_HEADER = 'x-client-id';
+export const AUTH_METHOD_HEADER = 'x-auth-method';
+
+// Response headers browser clients may read
+const EXPOSED_HEADERS = [
+  'Content-Disposition',
+  'Retry-After',
+  'X-Speech-Model',
+  'X-Speech-Voice',
+  'X-Speech-Provider',
+  'X-Speech-Chunks',
+  'X-Transcription-Model',
+  'X-Cache',
+  'X-Request-Id',
+  ...RATE_LIMIT_HEADER_NAMES,
+  ...QUOTA_HEADER_NAMES,
+];
+
+export type AuthMethod = 'api-key' | 'token' | 'admin' | 'none';
+
+export interface AuthContext {
+  /** API key id, `admin`, or `ip:<address>` for unauthenticated callers when authentication is off */
+  clientId: string;
+  method: AuthMethod;
+}
+
+interface TokenPayload {
+  /** API key id the token was issued for */
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedToken {
+  token: string;
+  keyId: string;
+  expiresAt: string;
+}
+
+export function isAuthRequired(): boolean {
+  return process.env.API_AUTH !== 'off';
+}
+
+/** `ALLOWED_ORIGINS`: comma-separated origins, `*` for any; empty when unset. */
+export function getAllowedOrigins(): string[] {
+  return (process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+let warnedUnconfigured = false;
+
+/**
+ * Whether a browser at `origin` may call the API. Requests from the
+ * server's own origin always may. Without `ALLOWED_ORIGINS` only Chrome
+ * extensions may, so a missing setting never opens the API to every site.
+ */
+export function isOriginAllowed(origin: string, ownOrigin?: string): boolean {
+  if (origin === ownOrigin) {
+    return true;
+  }
+
+  const allowed = getAllowedOrigins();
+  if (allowed.length === 0) {
+    if (!warnedUnconfigured) {
+      warnedUnconfigured = true;
+      log.warn('ALLOWED_ORIGINS is not set; only chrome-extension:// origins may call the API');
+    }
+    return origin.startsWith('chrome-extension://');
+  }
+  return allowed.includes('*') || allowed.includes(origin);
+}
+
+/** CORS headers for a response to `origin`, which must already be allowed. */
+export function getCorsHeaders(origin: string | null): Record<string, string> {
+  if (!origin) {
+    return {};
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', '),
+    Vary: 'Origin',
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function getTokenSecret(): string {
+  const secret = process.env.AUTH_TOKEN_SECRET;
+  if (!secret) {
+    throw new ApiError(
+      ErrorCodes.AUTH_TOKENS_DISABLED,
+      'Signed tokens are not enabled. Set AUTH_TOKEN_SECRET to issue them',
+      501
+    );
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+}
+
+function getTokenTtl(requested?: number): number {
+  const configured = parseInt(process.env.AUTH_TOKEN_TTL || '', 10);
+  const ttl = requested || (configured > 0 ? configured : DEFAULT_TOKEN_TTL_SECONDS);
+  return Math.min(ttl, MAX_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Issues a signed token for an API key. Tokens are stateless: they stop
+ * working when they expire or when the key they were issued for is revoked.
+ */
+export function issueToken(keyId: string, ttlSeconds?: number): IssuedToken {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = { sub: keyId, iat: now, exp: now + getTokenTtl(ttlSeconds) };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    token: `${TOKEN_PREFIX}${encoded}.${sign(encoded)}`,
+    keyId,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+function unauthorized(message: string) {
+  return new ApiError(ErrorCodes.UNAUTHORIZED, message, 401);
+}
+
+function verifyToken(token: string): TokenPayload {
+  if (!process.env.AUTH_TOKEN_SECRET) {
+    throw unauthorized('Signed tokens are not enabled on this server');
+  }
+
+  const [encoded, signature] = token.slice(TOKEN_PREFIX.length).split('.');
+  if (!encoded || !signature || !safeEqual(signature, sign(encoded))) {
+    throw unauthorized('Invalid token');
+  }
+
+  const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenPayload;
+  if (payload.exp * 1000 <= Date.now()) {
+    throw unauthorized('Token expired');
+  }
+  return payload;
+}
+
+function getClientIp(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown';
+}
+
+/** The caller as identified by the proxy. */
+export function getClientId(headers: Headers): string {
+  return headers.get(CLIENT_ID_HEADER) || 'unknown';
+}
+
+/** `Authorization: Bearer <key or token>`, or an `X-API-Key` header. */
+function getCredential(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw unauthorized('Authorization header must use the Bearer scheme');
+    }
+    return match[1];
+  }
+  return headers.get('x-api-key');
+}
+
+/**
+ * Identifies the caller. Throws 401 for missing, malformed or expired
+ * credentials and 403 for revoked keys, or for non-admin callers of admin routes.
+ */
+export async function authenticate(headers: Headers, { admin = false } = {}): Promise<AuthContext> {
+  const credential = getCredential(headers);
+  const adminKey = process.env.AUTH_ADMIN_KEY;
+
+  if (credential && adminKey && safeEqual(credential, adminKey)) {
+    return { clientId: 'admin', method: 'admin' };
+  }
+  if (admin) {
+    throw credential
+      ? new ApiError(ErrorCodes.FORBIDDEN, 'This endpoint requires the admin key', 403)
+      : unauthorized('This endpoint requires the admin key');
+  }
+
+  if (!credential) {
+    // Credentials are still checked when sent, so clients keep their identity
+    if (!isAuthRequired()) {
+      return { clientId: `ip:${getClientIp(headers)}`, method: 'none' };
+    }
+    throw unauthorized('Missing credentials. Send an API key or token as "Authorization: Bearer <credential>"');
+  }
+
+  let keyId: string;
+  let method: AuthMethod;
+  if (credential.startsWith(TOKEN_PREFIX)) {
+    keyId = verifyToken(credential).sub;
+    method = 'token';
+  } else if (isApiKey(credential)) {
+    const key = await apiKeyStore.findByKey(credential);
+    if (!key) {
+      throw unauthorized('Unknown API key');
+    }
+    keyId = key.id;
+    method = 'api-key';
+  } else {
+    throw unauthorized('Unrecognized credential');
+  }
+
+  const key = await apiKeyStore.get(keyId);
+  if (!key) {
+    throw unauthorized('Unknown API key');
+  }
+  if (key.revokedAt) {
+    throw new ApiError(ErrorCodes.FORBIDDEN, `API key ${key.id} was revoked`, 403);
+  }
+
+  return { clientId: key.id, method };
+}
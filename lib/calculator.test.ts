@@ -0,0 +1,43 @@
+// lib/calculator.test.ts
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1299 - 999) / 999 * 100', 30.0300300300300],
+    ['-2 ^ 2', -4],
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 10 % 1000', 24],
+    ['6 × 7 ÷ 2', 21],
+    ['0.1 + 0.2', 0.3],
+    ['round(pi, 2) + sqrt(16)', 7.14],
+    ['max(1, 5, 3) - min(4, 2)', 3],
+    ['log(1000) + ln(e)', 4],
+    ['1.5e3 + .5', 1500.5],
+  ])('evaluates %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['1 +', 'Unexpected end of expression'],
+    ['(1 + 2', 'Expected ")"'],
+    ['1 2', 'Unexpected "2"'],
+    ['2 $ 3', 'Unexpected character "$"'],
+    ['1 / 0', 'Result is not a finite number'],
+    ['foo(1)', 'Unknown function "foo"'],
+    ['tau', 'Unknown name "tau"'],
+  ])('rejects %j', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+
+  it('rejects expressions over 500 characters', () => {
+    expect(() => evaluateExpression('1'.repeat(501))).toThrow('Expression is longer than 500 characters');
+  });
+
+  it.each(['constructor', '__proto__'])('does not look %s up on the prototype', (name) => {
+    expect(() => evaluateExpression(`${name}(1)`)).toThrow(`Unknown function "${name}"`);
+    expect(() => evaluateExpression(name)).toThrow(`Unknown name "${name}"`);
+  });
+});
@@ -0,0 +1,171 @@
+// lib/calculator.ts
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const source = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\*\*/g, '^');
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|([-+*/%^(),]))/giy;
+
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(source);
+    if (!match) {
+      if (!source.slice(start).trim()) break;
+      throw new Error(`Unexpected character "${source.slice(start).trim()[0]}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] });
+  }
+
+  return tokens;
+}
+
+/** Recursive descent over the usual precedence: + -, then * / %, then unary minus, then ^ (right to left). */
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): number {
+    const value = this.expression();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private takeOp(...ops: string[]): string | undefined {
+    const token = this.peek();
+    if (token?.type === 'op' && ops.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expect(op: string) {
+    if (!this.takeOp(op)) {
+      throw new Error(`Expected "${op}"`);
+    }
+  }
+
+  private expression(): number {
+    let value = this.term();
+    for (let op = this.takeOp('+', '-'); op; op = this.takeOp('+', '-')) {
+      value = op === '+' ? value + this.term() : value - this.term();
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.unary();
+    for (let op = this.takeOp('*', '/', '%'); op; op = this.takeOp('*', '/', '%')) {
+      const right = this.unary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  }
+
+  private unary(): number {
+    const op = this.takeOp('+', '-');
+    if (op) {
+      return op === '-' ? -this.unary() : this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): number {
+    const base = this.primary();
+    return this.takeOp('^') ? base ** this.unary() : base;
+  }
+
+  private primary(): number {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    this.position++;
+
+    if (token.type === 'number') {
+      return token.value;
+    }
+    if (token.type === 'op') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`);
+      const value = this.expression();
+      this.expect(')');
+      return value;
+    }
+
+    if (this.takeOp('(')) {
+      const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new Error(`Unknown function "${token.value}"`);
+      const args = [this.expression()];
+      while (this.takeOp(',')) args.push(this.expression());
+      this.expect(')');
+      return fn(...args);
+    }
+
+    if (!Object.hasOwn(CONSTANTS, token.value)) {
+      throw new Error(`Unknown name "${token.value}"`);
+    }
+    return CONSTANTS[token.value];
+  }
+}
+
+/**
+ * Evaluates an arithmetic expression without `eval`: numbers, + - * / % ^,
+ * parentheses, `pi`, `e` and common functions (sqrt, round(x, digits), log,
+ * ln, sin, min, max, ...). Throws on anything else, or a non-finite result.
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty');
+  }
+
+  const value = new Parser(tokens).parse();
+  if (!Number.isFinite(value)) {
+    throw new Error('Result is not a finite number');
+  }
+  // Hide binary float noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number(value.toPrecision(15));
+}
@@ -0,0 +1,55 @@
+// lib/citations.test.ts
+import { describe, expect, it } from 'vitest';
+import { groundClaims } from './citations';
+
+const MAIN_TEXT = 'Intro.\n\nThe   “Pro” plan costs $10 — billed monthly. Refunds take 5 days.';
+
+function quoteOf(text: string, source?: 'selectedText' | 'mainText') {
+  return { claim: 'A claim.', quotes: [{ text, source }] };
+}
+
+describe('groundClaims', () => {
+  it('gives offsets into the source for an exact quote', () => {
+    const { claims } = groundClaims([quoteOf('Refunds take 5 days.', 'mainText')], { mainText: MAIN_TEXT });
+    const [quote] = claims[0].quotes;
+
+    expect(quote).toMatchObject({ source: 'mainText', match: 'exact' });
+    expect(MAIN_TEXT.slice(quote.start, quote.end)).toBe('Refunds take 5 days.');
+    expect(claims[0].supported).toBe(true);
+  });
+
+  it('maps a normalized match back to the original characters', () => {
+    const { claims } = groundClaims([quoteOf('the "pro" plan costs $10 - billed')], { mainText: MAIN_TEXT });
+    const [quote] = claims[0].quotes;
+
+    expect(quote.match).toBe('normalized');
+    expect(MAIN_TEXT.slice(quote.start, quote.end)).toBe('The   “Pro” plan costs $10 — billed');
+  });
+
+  it('spans an elided passage from its first part to its last', () => {
+    const { claims } = groundClaims([quoteOf('The “Pro” plan … take 5 days')], { mainText: MAIN_TEXT });
+    const [quote] = claims[0].quotes;
+
+    expect(quote.match).toBe('normalized');
+    expect(MAIN_TEXT.slice(quote.start, quote.end)).toBe(MAIN_TEXT.slice(MAIN_TEXT.indexOf('The'), -1));
+  });
+
+  it('falls back to the other source when the named one does not contain the quote', () => {
+    const pageInfo = { selectedText: 'Only the selection.', mainText: MAIN_TEXT };
+    const { claims } = groundClaims([quoteOf('Refunds take 5 days.', 'selectedText')], pageInfo);
+
+    expect(claims[0].quotes[0]).toMatchObject({ source: 'mainText', match: 'exact' });
+  });
+
+  it('flags or removes quotes that are not in the page', () => {
+    const raw = [{ claim: 'Mixed.', quotes: [{ text: 'Refunds take 5 days.' }, { text: 'Refunds are instant.' }] }];
+
+    const flagged = groundClaims(raw, { mainText: MAIN_TEXT });
+    expect(flagged.claims[0].quotes.map((quote) => quote.match)).toEqual(['exact', false]);
+    expect(flagged.report).toEqual({ claims: 1, quotes: 2, verified: 1, unmatched: 1, removed: false });
+
+    const removed = groundClaims(raw, { mainText: MAIN_TEXT }, 'remove');
+    expect(removed.claims[0].quotes).toHaveLength(1);
+    expect(removed.report.removed).toBe(true);
+  });
+});
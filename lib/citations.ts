@@ -0,0 +1,204 @@
+// lib/citations.ts
+import type { JsonSchema } from './json-schema';
+import type { PageInfo } from './request-schema';
+
+export type CitationSource = 'selectedText' | 'mainText';
+
+export type UnmatchedCitationMode = 'flag' | 'remove';
+
+/** What the model is asked to return when citations are requested */
+export const CITED_ANSWER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string', description: 'The full answer in markdown' },
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim: { type: 'string', description: 'One factual statement made in the answer' },
+          quotes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string', description: 'Copied verbatim from the source' },
+                source: { enum: ['selectedText', 'mainText'] },
+              },
+              required: ['text'],
+            },
+          },
+        },
+        required: ['claim', 'quotes'],
+      },
+    },
+  },
+  required: ['answer', 'claims'],
+};
+
+export const CITATION_NOTE = [
+  'CITATIONS: Support each factual statement in your answer with quotes from the page.',
+  'List those statements in "claims". Each quote must be copied character for character from SELECTED TEXT (source "selectedText") or PAGE CONTENT (source "mainText").',
+  'Keep quotes short (one sentence or less). Do not paraphrase, fix typos or join separate passages in a quote.',
+].join('\n');
+
+interface RawQuote {
+  text: string;
+  source?: CitationSource;
+}
+
+interface RawClaim {
+  claim: string;
+  quotes: RawQuote[];
+}
+
+/** A reply that passed validation against CITED_ANSWER_SCHEMA */
+export interface CitedAnswer {
+  answer: string;
+  claims: RawClaim[];
+}
+
+export interface VerifiedQuote {
+  /** The quote as the model gave it */
+  text: string;
+  source?: CitationSource;
+  /** Character offsets into the source as the client sent it; `end` is exclusive */
+  start?: number;
+  end?: number;
+  /** `exact`, `normalized` (whitespace, case or punctuation differed), or false if not found */
+  match: 'exact' | 'normalized' | false;
+}
+
+export interface GroundedClaim {
+  claim: string;
+  quotes: VerifiedQuote[];
+  /** At least one quote was found in the source */
+  supported: boolean;
+}
+
+export interface CitationReport {
+  claims: number;
+  quotes: number;
+  verified: number;
+  unmatched: number;
+  /** Unmatched quotes were dropped from `claims` */
+  removed: boolean;
+}
+
+const QUOTE_CHARS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  ' ': ' ',
+};
+
+/**
+ * Lowercases, straightens quotes and dashes and collapses whitespace,
+ * keeping a map from each normalized character back to its original offset.
+ */
+function normalize(text: string): { text: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let lastWasSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = QUOTE_CHARS[text[i]] || text[i].toLowerCase();
+    if (/\s/.test(char)) {
+      if (lastWasSpace || normalized.length === 0) continue;
+      normalized += ' ';
+      offsets.push(i);
+      lastWasSpace = true;
+    } else {
+      normalized += char;
+      offsets.push(i);
+      lastWasSpace = false;
+    }
+  }
+
+  return { text: normalized, offsets };
+}
+
+function findQuote(source: string, quote: string): Omit<VerifiedQuote, 'text' | 'source'> {
+  const exact = source.indexOf(quote);
+  if (exact >= 0) {
+    return { start: exact, end: exact + quote.length, match: 'exact' };
+  }
+
+  // Models often elide the middle of a passage: "first part ... last part"
+  const parts = quote
+    .split(/\s*(?:\.\.\.|…)\s*/)
+    .map((part) => normalize(part).text.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return { match: false };
+  }
+
+  const haystack = normalize(source);
+  let from = 0;
+  let start: number | undefined;
+  let end = 0;
+
+  for (const part of parts) {
+    const index = haystack.text.indexOf(part, from);
+    if (index < 0) {
+      return { match: false };
+    }
+    start = start ?? haystack.offsets[index];
+    end = haystack.offsets[index + part.length - 1] + 1;
+    from = index + part.length;
+  }
+
+  return { start, end, match: 'normalized' };
+}
+
+function verifyQuote(quote: RawQuote, pageInfo: PageInfo): VerifiedQuote {
+  // Try the source the model named first, then the other one
+  const sources: CitationSource[] =
+    quote.source === 'mainText' ? ['mainText', 'selectedText'] : ['selectedText', 'mainText'];
+
+  for (const source of sources) {
+    const text = pageInfo[source];
+    if (!text || !quote.text.trim()) continue;
+
+    const found = findQuote(text, quote.text.trim());
+    if (found.match) {
+      return { text: quote.text, source, ...found };
+    }
+  }
+
+  return { text: quote.text, source: quote.source, match: false };
+}
+
+/**
+ * Checks every quote the model cited against the page text the client
+ * sent, adding character offsets for the ones found. Unmatched quotes are
+ * kept with `match: false`, or dropped in `remove` mode.
+ */
+export function groundClaims(
+  rawClaims: RawClaim[],
+  pageInfo: PageInfo = {},
+  mode: UnmatchedCitationMode = 'flag'
+): { claims: GroundedClaim[]; report: CitationReport } {
+  const report: CitationReport = { claims: 0, quotes: 0, verified: 0, unmatched: 0, removed: mode === 'remove' };
+
+  const claims = rawClaims.map((raw) => {
+    const verified = raw.quotes.map((quote) => verifyQuote(quote, pageInfo));
+    const matched = verified.filter((quote) => quote.match);
+
+    report.quotes += verified.length;
+    report.verified += matched.length;
+    report.unmatched += verified.length - matched.length;
+
+    return {
+      claim: raw.claim,
+      quotes: mode === 'remove' ? matched : verified,
+      supported: matched.length > 0,
+    };
+  });
+
+  report.claims = claims.length;
+  return { claims, report };
+}
@@ -0,0 +1,86 @@
+// lib/context-budget.test.ts
+import { describe, expect, it } from 'vitest';
+import { budgetContext, estimateTokens, truncateToTokens } from './context-budget';
+import type { HistoryMessage } from './request-schema';
+
+const SENTENCE = 'The quick brown fox jumps over the lazy dog. ';
+
+function message(type: HistoryMessage['type'], content: string): HistoryMessage {
+  return { type, content };
+}
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, but at least 1.3 per word', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd'.repeat(10))).toBe(10);
+    expect(estimateTokens('a b c d')).toBe(6);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns text that already fits unchanged', () => {
+    expect(truncateToTokens('Short text.', 100)).toBe('Short text.');
+  });
+
+  it('returns nothing when there is no room', () => {
+    expect(truncateToTokens(SENTENCE, 0)).toBe('');
+  });
+
+  it('cuts at a sentence boundary, marks the cut and stays within the limit', () => {
+    const truncated = truncateToTokens(SENTENCE.repeat(50), 100);
+
+    expect(truncated).toMatch(/lazy dog\.\n\[…truncated\]$/);
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('budgetContext', () => {
+  const base = {
+    model: 'mock-chat',
+    maxCompletionTokens: 1000,
+    systemPrompt: 'You are a helpful assistant.',
+    userMessageBase: 'Summarize the page.',
+  };
+
+  it('sends everything when it fits', () => {
+    const budgeted = budgetContext({ ...base, selectedText: 'Selected.', mainText: SENTENCE });
+
+    expect(budgeted.selectedText).toBe('Selected.');
+    expect(budgeted.mainText).toBe(SENTENCE);
+    expect(budgeted.report.contextWindow).toBe(8192);
+    expect(budgeted.report.promptBudget).toBe(Math.floor((8192 - 1000) * 0.9));
+    expect(budgeted.report.mainText?.truncated).toBe(false);
+  });
+
+  it('keeps the selection whole and truncates the page to what is left', () => {
+    const selectedText = SENTENCE.repeat(200);
+    const budgeted = budgetContext({ ...base, selectedText, mainText: SENTENCE.repeat(2000) });
+
+    expect(budgeted.selectedText).toBe(selectedText);
+    expect(budgeted.report.mainText?.truncated).toBe(true);
+    expect(budgeted.report.estimatedPromptTokens).toBeLessThanOrEqual(budgeted.report.promptBudget);
+  });
+
+  it('keeps the newest history and summarizes what does not fit', () => {
+    const history = Array.from({ length: 40 }, (_, index) =>
+      message(index % 2 ? 'assistant' : 'user', `Message ${index}: ${SENTENCE.repeat(20)}`)
+    );
+    const budgeted = budgetContext({ ...base, history });
+
+    expect(budgeted.history.length).toBeGreaterThan(0);
+    expect(budgeted.history.length).toBeLessThan(history.length);
+    expect(budgeted.history.at(-1)).toBe(history.at(-1));
+    expect(budgeted.historySummary).toMatch(/^Summary of \d+ earlier message\(s\)/);
+    expect(budgeted.report.history).toMatchObject({ total: 40, summarized: true });
+  });
+
+  it('shares the page budget so short pages are sent whole', () => {
+    const short = 'A short page.';
+    const long = SENTENCE.repeat(2000);
+    const budgeted = budgetContext({ ...base, pages: [long, short, long] });
+
+    expect(budgeted.pages?.[1]).toBe(short);
+    expect(budgeted.report.pages?.map((page) => page.truncated)).toEqual([true, false, true]);
+    expect(estimateTokens(budgeted.pages?.[0])).toBeCloseTo(estimateTokens(budgeted.pages?.[2]), -1);
+  });
+});
@@ -0,0 +1,279 @@
+// lib/context-budget.ts
+import type { HistoryMessage } from './request-schema';
+
+// Known context windows (tokens). Unknown models fall back to DEFAULT_CONTEXT_WINDOW.
+const MODEL_CONTEXT_WINDOWS: { [model: string]: number } = {
+  'openai/gpt-oss-120b': 131072,
+  'openai/gpt-oss-20b': 131072,
+  'llama-3.3-70b-versatile': 131072,
+  'llama-3.1-8b-instant': 131072,
+  'meta-llama/llama-4-maverick-17b-128e-instruct': 131072,
+  'meta-llama/llama-4-scout-17b-16e-instruct': 131072,
+  'moonshotai/kimi-k2-instruct': 131072,
+  'qwen/qwen3-32b': 131072,
+  'gemma2-9b-it': 8192,
+  'mock-chat': 8192,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Even with a huge window we don't want to send (and pay for) more than this
+const DEFAULT_MAX_PROMPT_TOKENS = 24000;
+
+// Slack for chat-format overhead and estimation error
+const SAFETY_MARGIN = 0.9;
+const PER_MESSAGE_OVERHEAD = 4;
+
+// History messages beyond this many are always summarized rather than sent verbatim
+const MAX_SUMMARY_ENTRIES = 10;
+const SUMMARY_ENTRY_CHARS = 160;
+
+const TRUNCATION_MARKER = '\n[…truncated]';
+
+export interface ContextParts {
+  model: string;
+  /** Completion tokens reserved for the answer (the feature's max_tokens) */
+  maxCompletionTokens: number;
+  systemPrompt: string;
+  /** User message without selection and page content (metadata + task line) */
+  userMessageBase: string;
+  selectedText?: string;
+  mainText?: string;
+  /** Texts of the pages in a multi-page request, which share what page content would get */
+  pages?: string[];
+  history?: HistoryMessage[];
+}
+
+export interface TextBudgetReport {
+  originalTokens: number;
+  keptTokens: number;
+  truncated: boolean;
+}
+
+export interface ContextReport {
+  model: string;
+  contextWindow: number;
+  promptBudget: number;
+  estimatedPromptTokens: number;
+  selectedText?: TextBudgetReport;
+  mainText?: TextBudgetReport;
+  pages?: TextBudgetReport[];
+  history?: {
+    total: number;
+    kept: number;
+    dropped: number;
+    summarized: boolean;
+  };
+}
+
+export interface BudgetedContext {
+  selectedText?: string;
+  mainText?: string;
+  /** Page texts in request order; a page that got no room is an empty string */
+  pages?: string[];
+  history: HistoryMessage[];
+  /** Compact digest of history that did not fit, if any was dropped */
+  historySummary?: string;
+  report: ContextReport;
+}
+
+/**
+ * Rough token estimate without a tokenizer: ~4 characters per token for
+ * prose, but never fewer than ~1.3 tokens per word (code, URLs, CJK).
+ */
+export function estimateTokens(text: string = ''): number {
+  if (!text) return 0;
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil(Math.max(text.length / 4, words * 1.3));
+}
+
+export function getContextWindow(model: string): number {
+  const override = Number(process.env.MODEL_CONTEXT_WINDOW);
+  if (override > 0) return override;
+
+  return MODEL_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+function getMaxPromptTokens(): number {
+  const configured = Number(process.env.CONTEXT_MAX_PROMPT_TOKENS);
+  return configured > 0 ? configured : DEFAULT_MAX_PROMPT_TOKENS;
+}
+
+/**
+ * Cuts text down to roughly `maxTokens`, preferring a paragraph, sentence or
+ * word boundary near the limit.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return '';
+
+  const maxChars = Math.max(0, Math.floor(maxTokens * 4) - TRUNCATION_MARKER.length);
+  let cut = text.slice(0, maxChars);
+
+  // Shrink further if the word-based estimate still overshoots
+  while (cut.length > 0 && estimateTokens(cut) > maxTokens) {
+    cut = cut.slice(0, Math.floor(cut.length * 0.9));
+  }
+
+  const boundary = Math.max(
+    cut.lastIndexOf('\n\n'),
+    cut.lastIndexOf('. '),
+    cut.lastIndexOf('\n')
+  );
+  if (boundary > cut.length * 0.8) {
+    cut = cut.slice(0, boundary + 1);
+  } else if (cut.lastIndexOf(' ') > cut.length * 0.9) {
+    cut = cut.slice(0, cut.lastIndexOf(' '));
+  }
+
+  return cut.trimEnd() + TRUNCATION_MARKER;
+}
+
+function budgetText(text: string | undefined, available: number) {
+  if (!text) return { text: undefined, report: undefined, used: 0 };
+
+  const originalTokens = estimateTokens(text);
+  const kept = truncateToTokens(text, available);
+  const keptTokens = estimateTokens(kept);
+
+  return {
+    text: kept || undefined,
+    used: keptTokens,
+    report: { originalTokens, keptTokens, truncated: kept !== text },
+  };
+}
+
+/**
+ * Splits `available` tokens between texts so that none gets more than an
+ * equal share unless the others need less. Short pages are sent whole and
+ * what they leave over goes to the longer ones.
+ */
+function sharePages(texts: string[], available: number) {
+  const sizes = texts.map((text) => estimateTokens(text));
+  const shares = new Array<number>(texts.length).fill(0);
+  const bySize = texts.map((_, index) => index).sort((a, b) => sizes[a] - sizes[b]);
+  let left = Math.max(0, available);
+
+  bySize.forEach((index, position) => {
+    shares[index] = Math.min(sizes[index], Math.floor(left / (bySize.length - position)));
+    left -= shares[index];
+  });
+
+  const budgeted = texts.map((text, index) => budgetText(text, shares[index]));
+  return {
+    texts: budgeted.map((page) => page.text || ''),
+    reports: budgeted.map((page) => page.report as TextBudgetReport),
+    used: budgeted.reduce((sum, page) => sum + page.used, 0),
+  };
+}
+
+function summarizeHistory(dropped: HistoryMessage[]): string {
+  const entries = dropped.slice(-MAX_SUMMARY_ENTRIES).map((message) => {
+    const content = message.content.replace(/\s+/g, ' ').trim();
+    const clipped =
+      content.length > SUMMARY_ENTRY_CHARS
+        ? `${content.slice(0, SUMMARY_ENTRY_CHARS)}…`
+        : content;
+    return `- ${message.type === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+  });
+
+  const omitted = dropped.length - entries.length;
+
+  return [
+    `Summary of ${dropped.length} earlier message(s) that were shortened to fit the context window:`,
+    omitted > 0 && `(${omitted} older message(s) omitted)`,
+    ...entries,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Splits the prompt budget by priority: system prompt and task first, then
+ * the selection, then the most recent history, then page content.
+ */
+export function budgetContext(parts: ContextParts): BudgetedContext {
+  const contextWindow = getContextWindow(parts.model);
+  const promptBudget = Math.floor(
+    Math.min(contextWindow - parts.maxCompletionTokens, getMaxPromptTokens()) * SAFETY_MARGIN
+  );
+
+  // 1. System prompt and the task itself are never trimmed
+  let remaining =
+    promptBudget -
+    estimateTokens(parts.systemPrompt) -
+    estimateTokens(parts.userMessageBase) -
+    PER_MESSAGE_OVERHEAD * 2;
+
+  // 2. Selection
+  const selected = budgetText(parts.selectedText, remaining);
+  remaining -= selected.used;
+
+  // 3. Recent history, newest first; page content keeps at least a quarter of what's left
+  const history = (parts.history || []).filter((message) => message.content.trim());
+  const historyBudget = parts.mainText || parts.pages?.length ? Math.floor(remaining * 0.75) : remaining;
+  const kept: HistoryMessage[] = [];
+  let historyUsed = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content) + PER_MESSAGE_OVERHEAD;
+    if (historyUsed + cost > historyBudget) break;
+    kept.unshift(history[i]);
+    historyUsed += cost;
+  }
+
+  const dropped = history.slice(0, history.length - kept.length);
+  let historySummary: string | undefined;
+
+  if (dropped.length > 0) {
+    historySummary = summarizeHistory(dropped);
+    const summaryCost = estimateTokens(historySummary) + PER_MESSAGE_OVERHEAD;
+
+    // Make room for the summary by dropping the oldest kept messages
+    while (kept.length > 0 && historyUsed + summaryCost > historyBudget) {
+      const removed = kept.shift()!;
+      historyUsed -= estimateTokens(removed.content) + PER_MESSAGE_OVERHEAD;
+      dropped.push(removed);
+    }
+
+    if (historyUsed + summaryCost <= historyBudget) {
+      historySummary = summarizeHistory(dropped);
+      historyUsed += estimateTokens(historySummary) + PER_MESSAGE_OVERHEAD;
+    } else {
+      historySummary = undefined;
+    }
+  }
+  remaining -= historyUsed;
+
+  // 4. Page content gets whatever is left, split fairly when there are several pages
+  const main = budgetText(parts.mainText, remaining);
+  remaining -= main.used;
+
+  const pages = parts.pages?.length ? sharePages(parts.pages, remaining) : undefined;
+  remaining -= pages?.used || 0;
+
+  return {
+    selectedText: selected.text,
+    mainText: main.text,
+    pages: pages?.texts,
+    history: kept,
+    historySummary,
+    report: {
+      model: parts.model,
+      contextWindow,
+      promptBudget,
+      estimatedPromptTokens: promptBudget - remaining,
+      selectedText: selected.report,
+      mainText: main.report,
+      pages: pages?.reports,
+      history: history.length
+        ? {
+            total: history.length,
+            kept: kept.length,
+            dropped: history.length - kept.length,
+            summarized: !!historySummary,
+          }
+        : undefined,
+    },
+  };
+}
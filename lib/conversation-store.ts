@@ -0,0 +1,244 @@
+// lib/conversation-store.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ApiError, ErrorCodes } from './errors';
+import { createLogger } from './logger';
+import type { HistoryMessage } from './request-schema';
+
+const log = createLogger('conversations');
+
+const DEFAULT_DIR = '.data/conversations';
+const TITLE_LENGTH = 60;
+
+export interface ConversationMessage extends HistoryMessage {
+  id: string;
+  createdAt: string;
+  feature?: string;
+  model?: string;
+  /** Page the turn was about */
+  page?: { title?: string; url?: string };
+}
+
+export interface Conversation {
+  id: string;
+  /** The client (API key id) that created the thread; no other client can see or change it */
+  clientId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  lastPage?: { title?: string; url?: string };
+}
+
+export interface TurnRecord {
+  /** Used as the assistant message id so the answer can be found by its response id */
+  responseId?: string;
+  feature: string;
+  query?: string;
+  response: string;
+  model?: string;
+  page?: { title?: string; url?: string };
+}
+
+/**
+ * File-backed conversation threads, one JSON file per conversation under
+ * `CONVERSATIONS_DIR` (default `.data/conversations`). Writes are atomic and
+ * serialized per conversation. Every method takes the calling client's id:
+ * a thread another client owns is reported as not found.
+ */
+export class ConversationStore {
+  private locks = new Map<string, Promise<unknown>>();
+
+  private getDir() {
+    const dir = path.resolve(process.cwd(), process.env.CONVERSATIONS_DIR || DEFAULT_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  private getPath(id: string) {
+    // Ids are UUIDs we generate; anything else must not reach the filesystem
+    if (!/^[a-f0-9-]{36}$/.test(id)) {
+      throw this.notFound(id);
+    }
+    return path.join(this.getDir(), `${id}.json`);
+  }
+
+  private notFound(id: string) {
+    return new ApiError(ErrorCodes.CONVERSATION_NOT_FOUND, `Conversation not found: ${id}`, 404);
+  }
+
+  private async read(id: string): Promise<Conversation> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.getPath(id), 'utf8')) as Conversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw this.notFound(id);
+      }
+      throw error;
+    }
+  }
+
+  /** The conversation, if `clientId` owns it. Threads stored before owners were recorded belong to no one. */
+  private async readOwned(clientId: string, id: string): Promise<Conversation> {
+    const conversation = await this.read(id);
+    if (conversation.clientId !== clientId) {
+      throw this.notFound(id);
+    }
+    return conversation;
+  }
+
+  private async write(conversation: Conversation) {
+    const filePath = this.getPath(conversation.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(conversation, null, 2));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /** Runs read-modify-write operations on one conversation one at a time. */
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(id, next);
+    next.finally(() => {
+      if (this.locks.get(id) === next) this.locks.delete(id);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  async create(clientId: string, title?: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: crypto.randomUUID(),
+      clientId,
+      title: title?.trim() || 'New conversation',
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+
+    await this.write(conversation);
+    return conversation;
+  }
+
+  async list(clientId: string): Promise<ConversationSummary[]> {
+    const dir = this.getDir();
+    const files = (await fs.promises.readdir(dir)).filter((file) => file.endsWith('.json'));
+
+    const summaries = await Promise.all(
+      files.map(async (file): Promise<ConversationSummary | null> => {
+        try {
+          const conversation = await this.read(path.basename(file, '.json'));
+          if (conversation.clientId !== clientId) {
+            return null;
+          }
+          const lastPage = [...conversation.messages].reverse().find((message) => message.page)?.page;
+          return {
+            id: conversation.id,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+            updatedAt: conversation.updatedAt,
+            messageCount: conversation.messages.length,
+            lastPage,
+          };
+        } catch (error) {
+          log.error('Skipping unreadable conversation file', { file, error });
+          return null;
+        }
+      })
+    );
+
+    return summaries
+      .filter((summary): summary is ConversationSummary => summary !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(clientId: string, id: string): Promise<Conversation> {
+    return this.readOwned(clientId, id);
+  }
+
+  rename(clientId: string, id: string, title: string): Promise<Conversation> {
+    return this.withLock(id, async () => {
+      const conversation = await this.readOwned(clientId, id);
+      conversation.title = title.trim();
+      conversation.updatedAt = new Date().toISOString();
+      await this.write(conversation);
+      return conversation;
+    });
+  }
+
+  delete(clientId: string, id: string): Promise<void> {
+    return this.withLock(id, async () => {
+      await this.readOwned(clientId, id);
+      try {
+        await fs.promises.unlink(this.getPath(id));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw this.notFound(id);
+        }
+        throw error;
+      }
+    });
+  }
+
+  async getMessage(clientId: string, id: string, messageId: string): Promise<ConversationMessage | undefined> {
+    const conversation = await this.readOwned(clientId, id);
+    return conversation.messages.find((message) => message.id === messageId);
+  }
+
+  async getHistory(clientId: string, id: string): Promise<HistoryMessage[]> {
+    const conversation = await this.readOwned(clientId, id);
+    return conversation.messages.map(({ type, content }) => ({ type, content }));
+  }
+
+  /** Appends a user/assistant exchange; untitled threads are named after the first query. */
+  appendTurn(clientId: string, id: string, turn: TurnRecord): Promise<Conversation> {
+    return this.withLock(id, async () => {
+      const conversation = await this.readOwned(clientId, id);
+      const now = new Date().toISOString();
+      const userContent = turn.query || `[${turn.feature}]`;
+
+      conversation.messages.push(
+        {
+          id: crypto.randomUUID(),
+          type: 'user',
+          content: userContent,
+          createdAt: now,
+          feature: turn.feature,
+          page: turn.page,
+        },
+        {
+          id: turn.responseId || crypto.randomUUID(),
+          type: 'assistant',
+          content: turn.response,
+          createdAt: now,
+          feature: turn.feature,
+          model: turn.model,
+          page: turn.page,
+        }
+      );
+
+      if (conversation.title === 'New conversation') {
+        conversation.title =
+          userContent.length > TITLE_LENGTH
+            ? `${userContent.slice(0, TITLE_LENGTH).trimEnd()}…`
+            : userContent;
+      }
+
+      conversation.updatedAt = now;
+      await this.write(conversation);
+      return conversation;
+    });
+  }
+}
+
+// Export a singleton instance
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,54 @@
+// lib/conversions.test.ts
+import { describe, expect, it } from 'vitest';
+import { calculateDate, convertUnits } from './conversions';
+
+describe('convertUnits', () => {
+  it.each([
+    [10, 'km', 'miles', 6.21371192237, 'mi'],
+    [1, 'lb', 'g', 453.59237, 'g'],
+    [212, '°F', 'celsius', 100, '°C'],
+    [0, 'Degree Celsius', 'kelvin', 273.15, 'K'],
+    [1, 'GiB', 'MB', 1073.741824, 'MB'],
+  ])('converts %s %s to %s', (value, from, to, result, symbol) => {
+    expect(convertUnits(value, from, to)).toMatchObject({ result, to: symbol });
+  });
+
+  it('refuses units of different dimensions or unknown units', () => {
+    expect(() => convertUnits(1, 'kg', 'km')).toThrow('Cannot convert mass (kg) to length (km)');
+    expect(() => convertUnits(1, 'cubits', 'm')).toThrow('Unknown unit "cubits"');
+  });
+});
+
+describe('calculateDate', () => {
+  const now = new Date('2026-03-14T10:30:00Z');
+
+  it('counts the days and calendar months between dates', () => {
+    expect(calculateDate({ operation: 'difference', date: '2024-01-31', otherDate: '2026-03-14' }, now)).toBe(
+      'From 2024-01-31 to 2026-03-14: 773 days (110.43 weeks; 2 years, 1 months and 14 days).'
+    );
+  });
+
+  it('adds months without overflowing into the next month', () => {
+    expect(calculateDate({ operation: 'add', date: '2026-01-31', amount: 1, unit: 'months' }, now)).toBe(
+      '2026-01-31 + 1 months = 2026-02-28 (Saturday).'
+    );
+    expect(calculateDate({ operation: 'add', date: 'today', amount: -2, unit: 'weeks' }, now)).toBe(
+      '2026-03-14 - 2 weeks = 2026-02-28 (Saturday).'
+    );
+  });
+
+  it('names the weekday and converts to a time zone', () => {
+    expect(calculateDate({ operation: 'weekday', date: '2026-03-14' }, now)).toBe('2026-03-14 is a Saturday.');
+    expect(calculateDate({ operation: 'timezone', date: 'now', timeZone: 'Asia/Tokyo' }, now)).toMatch(
+      /^2026-03-14T10:30:00\.000Z is Saturday, March 14, 2026 at 7:30:00\sPM GMT\+9 in Asia\/Tokyo\.$/
+    );
+  });
+
+  it('explains what is missing or unreadable', () => {
+    expect(() => calculateDate({ operation: 'difference', date: '2026-03-14' }, now)).toThrow('otherDate is required');
+    expect(() => calculateDate({ operation: 'weekday', date: 'next Tuesday' }, now)).toThrow('Cannot read "next Tuesday" as a date');
+    expect(() => calculateDate({ operation: 'timezone', date: 'now', timeZone: 'Mars/Base' }, now)).toThrow(
+      'Unknown time zone "Mars/Base"'
+    );
+  });
+});
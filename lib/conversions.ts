@@ -0,0 +1,260 @@
+// lib/conversions.ts
+
+type Dimension = 'length' | 'mass' | 'volume' | 'area' | 'speed' | 'time' | 'data' | 'temperature';
+
+interface Unit {
+  dimension: Dimension;
+  /** Size in the dimension's base unit (metre, kilogram, litre, m², m/s, second, byte) */
+  factor: number;
+  symbol: string;
+}
+
+// [symbol, factor, ...aliases]; aliases are matched case-insensitively
+const UNIT_TABLE: Record<Exclude<Dimension, 'temperature'>, Array<[string, number, ...string[]]>> = {
+  length: [
+    ['mm', 0.001, 'millimeter', 'millimetre'],
+    ['cm', 0.01, 'centimeter', 'centimetre'],
+    ['m', 1, 'meter', 'metre'],
+    ['km', 1000, 'kilometer', 'kilometre'],
+    ['in', 0.0254, 'inch', 'inches', '"'],
+    ['ft', 0.3048, 'foot', 'feet', "'"],
+    ['yd', 0.9144, 'yard'],
+    ['mi', 1609.344, 'mile'],
+    ['nmi', 1852, 'nautical mile'],
+  ],
+  mass: [
+    ['mg', 0.000001, 'milligram'],
+    ['g', 0.001, 'gram'],
+    ['kg', 1, 'kilogram', 'kilo'],
+    ['t', 1000, 'tonne', 'metric ton'],
+    ['oz', 0.028349523125, 'ounce'],
+    ['lb', 0.45359237, 'lbs', 'pound'],
+    ['st', 6.35029318, 'stone'],
+  ],
+  volume: [
+    ['ml', 0.001, 'milliliter', 'millilitre'],
+    ['l', 1, 'liter', 'litre'],
+    ['m3', 1000, 'm³', 'cubic meter', 'cubic metre'],
+    ['tsp', 0.00492892159375, 'teaspoon'],
+    ['tbsp', 0.01478676478125, 'tablespoon'],
+    ['fl oz', 0.0295735295625, 'floz', 'fluid ounce'],
+    ['cup', 0.2365882365],
+    ['pt', 0.473176473, 'pint'],
+    ['qt', 0.946352946, 'quart'],
+    ['gal', 3.785411784, 'gallon'],
+  ],
+  area: [
+    ['cm2', 0.0001, 'cm²', 'square centimeter', 'square centimetre'],
+    ['m2', 1, 'm²', 'square meter', 'square metre'],
+    ['km2', 1000000, 'km²', 'square kilometer', 'square kilometre'],
+    ['ha', 10000, 'hectare'],
+    ['acre', 4046.8564224],
+    ['in2', 0.00064516, 'in²', 'square inch', 'square inches'],
+    ['ft2', 0.09290304, 'ft²', 'square foot', 'square feet'],
+    ['mi2', 2589988.110336, 'mi²', 'square mile'],
+  ],
+  speed: [
+    ['m/s', 1, 'mps', 'meters per second', 'metres per second'],
+    ['km/h', 1 / 3.6, 'kph', 'kmh', 'kilometers per hour', 'kilometres per hour'],
+    ['mph', 0.44704, 'mi/h', 'miles per hour'],
+    ['kn', 1852 / 3600, 'knot', 'kt'],
+    ['ft/s', 0.3048, 'fps', 'feet per second'],
+  ],
+  time: [
+    ['ms', 0.001, 'millisecond'],
+    ['s', 1, 'sec', 'second'],
+    ['min', 60, 'minute'],
+    ['h', 3600, 'hr', 'hour'],
+    ['d', 86400, 'day'],
+    ['wk', 604800, 'week'],
+    ['yr', 31557600, 'year'],
+  ],
+  data: [
+    ['bit', 0.125],
+    ['B', 1, 'byte'],
+    ['KB', 1e3, 'kilobyte'],
+    ['MB', 1e6, 'megabyte'],
+    ['GB', 1e9, 'gigabyte'],
+    ['TB', 1e12, 'terabyte'],
+    ['KiB', 1024, 'kibibyte'],
+    ['MiB', 1024 ** 2, 'mebibyte'],
+    ['GiB', 1024 ** 3, 'gibibyte'],
+    ['TiB', 1024 ** 4, 'tebibyte'],
+  ],
+};
+
+const TEMPERATURES: Array<[string, ...string[]]> = [
+  ['°C', 'c', 'celsius', 'degc', 'degrees celsius'],
+  ['°F', 'f', 'fahrenheit', 'degf', 'degrees fahrenheit'],
+  ['K', 'k', 'kelvin'],
+];
+
+const UNITS = new Map<string, Unit>();
+
+for (const [dimension, units] of Object.entries(UNIT_TABLE)) {
+  for (const [symbol, factor, ...aliases] of units) {
+    const unit = { dimension: dimension as Dimension, factor, symbol };
+    for (const name of [symbol, ...aliases]) {
+      UNITS.set(name.toLowerCase(), unit);
+      // Regular plurals ("meters", "pounds"); irregular ones are listed as aliases
+      if (/[a-z]$/i.test(name) && name.length > 2) UNITS.set(`${name.toLowerCase()}s`, unit);
+    }
+  }
+}
+for (const [symbol, ...aliases] of TEMPERATURES) {
+  for (const name of [symbol, ...aliases]) {
+    UNITS.set(name.toLowerCase(), { dimension: 'temperature', factor: 1, symbol });
+  }
+}
+
+function findUnit(name: string): Unit {
+  const unit = UNITS.get(name.trim().toLowerCase().replace(/^degrees? /, 'degrees ').replace(/\s+/g, ' '));
+  if (!unit) {
+    throw new Error(`Unknown unit "${name}"`);
+  }
+  return unit;
+}
+
+function toKelvin(value: number, symbol: string): number {
+  return symbol === '°C' ? value + 273.15 : symbol === '°F' ? ((value - 32) * 5) / 9 + 273.15 : value;
+}
+
+function fromKelvin(value: number, symbol: string): number {
+  return symbol === '°C' ? value - 273.15 : symbol === '°F' ? ((value - 273.15) * 9) / 5 + 32 : value;
+}
+
+export interface Conversion {
+  value: number;
+  from: string;
+  result: number;
+  to: string;
+  dimension: Dimension;
+}
+
+/** Converts between units of the same dimension, by symbol or name (`km`, `miles`, `°F`, `GiB`). */
+export function convertUnits(value: number, from: string, to: string): Conversion {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${source.symbol}) to ${target.dimension} (${target.symbol})`);
+  }
+
+  const result =
+    source.dimension === 'temperature'
+      ? fromKelvin(toKelvin(value, source.symbol), target.symbol)
+      : (value * source.factor) / target.factor;
+
+  return {
+    value,
+    from: source.symbol,
+    result: Number(result.toPrecision(12)),
+    to: target.symbol,
+    dimension: source.dimension,
+  };
+}
+
+export type DateOperation = 'difference' | 'add' | 'weekday' | 'timezone';
+
+export const DATE_OPERATIONS: DateOperation[] = ['difference', 'add', 'weekday', 'timezone'];
+
+export const DATE_UNITS = ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] as const;
+
+export type DateUnit = (typeof DATE_UNITS)[number];
+
+const DAY_MS = 86400000;
+
+/** `today`, `now`, or anything Date can parse; a bare `YYYY-MM-DD` is midnight UTC. */
+export function parseDate(value: string, now = new Date()): Date {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'now') return now;
+  if (trimmed === 'today') return new Date(now.toISOString().slice(0, 10));
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Cannot read "${value}" as a date; use YYYY-MM-DD or an ISO date-time`);
+  }
+  return date;
+}
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace('.000Z', 'Z');
+}
+
+function weekday(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+}
+
+// Whole calendar months from a to b, for "2 years, 3 months and 4 days"
+function calendarDifference(a: Date, b: Date) {
+  const [start, end] = a <= b ? [a, b] : [b, a];
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  if (addMonths(start, months) > end) months--;
+  const days = Math.floor((end.getTime() - addMonths(start, months).getTime()) / DAY_MS);
+  return { years: Math.floor(months / 12), months: months % 12, days };
+}
+
+// Adding a month to Jan 31 gives the last day of February, not March 3
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+export interface DateQuery {
+  operation: DateOperation;
+  date: string;
+  /** For `difference` */
+  otherDate?: string;
+  /** For `add`; negative to subtract */
+  amount?: number;
+  unit?: DateUnit;
+  /** For `timezone`: an IANA zone such as `Asia/Tokyo` */
+  timeZone?: string;
+}
+
+/** Date arithmetic in UTC, answered as a short sentence the model can quote. */
+export function calculateDate(query: DateQuery, now = new Date()): string {
+  const date = parseDate(query.date, now);
+
+  switch (query.operation) {
+    case 'weekday':
+      return `${formatDate(date)} is a ${weekday(date)}.`;
+
+    case 'difference': {
+      if (!query.otherDate) throw new Error('otherDate is required for difference');
+      const other = parseDate(query.otherDate, now);
+      const days = (other.getTime() - date.getTime()) / DAY_MS;
+      const { years, months, days: rest } = calendarDifference(date, other);
+      return [
+        `From ${formatDate(date)} to ${formatDate(other)}: ${Number(days.toFixed(2))} days`,
+        `(${Number((days / 7).toFixed(2))} weeks; ${years} years, ${months} months and ${rest} days).`,
+      ].join(' ');
+    }
+
+    case 'add': {
+      if (query.amount === undefined || !query.unit) throw new Error('amount and unit are required for add');
+      const { amount, unit } = query;
+      const result =
+        unit === 'months' || unit === 'years'
+          ? addMonths(date, unit === 'years' ? amount * 12 : amount)
+          : new Date(date.getTime() + amount * { minutes: 60000, hours: 3600000, days: DAY_MS, weeks: 7 * DAY_MS }[unit]);
+      return `${formatDate(date)} ${amount < 0 ? '-' : '+'} ${Math.abs(amount)} ${unit} = ${formatDate(result)} (${weekday(result)}).`;
+    }
+
+    case 'timezone': {
+      if (!query.timeZone) throw new Error('timeZone is required for timezone');
+      let local: string;
+      try {
+        local = date.toLocaleString('en-US', { timeZone: query.timeZone, dateStyle: 'full', timeStyle: 'long' });
+      } catch {
+        throw new Error(`Unknown time zone "${query.timeZone}"`);
+      }
+      return `${date.toISOString()} is ${local} in ${query.timeZone}.`;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// lib/errors.ts
+import { NextResponse } from 'next/server';
+
+export const ErrorCodes = {
+  INVALID_JSON: 'INVALID_JSON',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  UNKNOWN_PROVIDER: 'UNKNOWN_PROVIDER',
+  PROVIDER_NOT_CONFIGURED: 'PROVIDER_NOT_CONFIGURED',
+  MISSING_AUDIO: 'MISSING_AUDIO',
+  UNSUPPORTED_AUDIO_FORMAT: 'UNSUPPORTED_AUDIO_FORMAT',
+  AUDIO_TOO_LARGE: 'AUDIO_TOO_LARGE',
+  INVALID_AUDIO_ENCODING: 'INVALID_AUDIO_ENCODING',
+  PROCESSING_FAILED: 'PROCESSING_FAILED',
+  TRANSCRIPTION_FAILED: 'TRANSCRIPTION_FAILED',
+  FEATURE_CONFIG_INVALID: 'FEATURE_CONFIG_INVALID',
+  CONVERSATION_NOT_FOUND: 'CONVERSATION_NOT_FOUND',
+  CONVERSATION_STORE_FAILED: 'CONVERSATION_STORE_FAILED',
+  NO_SPEECH_DETECTED: 'NO_SPEECH_DETECTED',
+  VOICE_INTENT_UNRESOLVED: 'VOICE_INTENT_UNRESOLVED',
+  VOICE_COMMAND_FAILED: 'VOICE_COMMAND_FAILED',
+  RESPONSE_NOT_FOUND: 'RESPONSE_NOT_FOUND',
+  NOTHING_TO_SPEAK: 'NOTHING_TO_SPEAK',
+  AUDIO_CONVERSION_UNAVAILABLE: 'AUDIO_CONVERSION_UNAVAILABLE',
+  SPEECH_FAILED: 'SPEECH_FAILED',
+  STRUCTURED_OUTPUT_INVALID: 'STRUCTURED_OUTPUT_INVALID',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  ORIGIN_NOT_ALLOWED: 'ORIGIN_NOT_ALLOWED',
+  API_KEY_NOT_FOUND: 'API_KEY_NOT_FOUND',
+  AUTH_TOKENS_DISABLED: 'AUTH_TOKENS_DISABLED',
+  AUTH_FAILED: 'AUTH_FAILED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  UPSTREAM_RATE_LIMITED: 'UPSTREAM_RATE_LIMITED',
+  CONTEXT_TOO_LONG: 'CONTEXT_TOO_LONG',
+  MODEL_UNAVAILABLE: 'MODEL_UNAVAILABLE',
+  INVALID_INPUT: 'INVALID_INPUT',
+  UPSTREAM_TIMEOUT: 'UPSTREAM_TIMEOUT',
+  UPSTREAM_ERROR: 'UPSTREAM_ERROR',
+  CONTENT_BLOCKED: 'CONTENT_BLOCKED',
+  PROMPT_INJECTION_SUSPECTED: 'PROMPT_INJECTION_SUSPECTED',
+} as const;
+
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+export interface ValidationIssue {
+  /** Dot/bracket path to the offending field, e.g. `conversationHistory[3].type` */
+  path: string;
+  code: 'REQUIRED' | 'INVALID_TYPE' | 'INVALID_VALUE' | 'TOO_LONG' | 'TOO_MANY_ITEMS';
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly status: number = 500,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(
+      ErrorCodes.VALIDATION_FAILED,
+      `Invalid request: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+      400,
+      { issues }
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+interface ErrorFallback {
+  code: ErrorCode;
+  error: string;
+}
+
+/**
+ * Builds the JSON error body shared by every route. `error` stays a human
+ * readable string for older extension builds; `code` is machine readable.
+ * Only an ApiError's message is meant for clients; anything else (provider
+ * errors, file paths from the stores) is logged and replaced by the fallback.
+ */
+export function toErrorBody(error: unknown, fallback: ErrorFallback) {
+  const isApiError = error instanceof ApiError;
+
+  return {
+    error: isApiError ? error.message : fallback.error,
+    code: isApiError ? error.code : fallback.code,
+    message: isApiError ? error.message : undefined,
+    ...(isApiError ? error.details : undefined),
+    stack:
+      process.env.NODE_ENV === 'development' && error instanceof Error
+        ? error.stack
+        : undefined,
+  };
+}
+
+export function getErrorStatus(error: unknown): number {
+  return error instanceof ApiError ? error.status : 500;
+}
+
+export function errorResponse(error: unknown, fallback: ErrorFallback) {
+  // Errors that know when to come back say so the standard way too
+  const retryAfter = error instanceof ApiError ? error.details?.retryAfter : undefined;
+
+  return NextResponse.json(toErrorBody(error, fallback), {
+    status: getErrorStatus(error),
+    headers: typeof retryAfter === 'number' ? { 'Retry-After': String(Math.ceil(retryAfter)) } : undefined,
+  });
+}
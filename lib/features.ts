@@ -0,0 +1,315 @@
+// lib/features.ts
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+import { getFallbackModelsFromEnv } from './upstream';
+
+const log = createLogger('features');
+
+export type FeatureInput = 'query' | 'selectedText' | 'mainText' | 'featurePrompt';
+
+export interface FeatureDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  /** Added to the system prompt; empty means the request's featurePrompt is used */
+  systemInstructions: string;
+  /** TASK line; `{query}` is replaced with the user's query */
+  taskTemplate: string;
+  /** TASK line used when no query was given (defaults to taskTemplate) */
+  taskTemplateWithoutQuery?: string;
+  temperature: number;
+  maxTokens: number;
+  requiredInputs: FeatureInput[];
+  defaultModel?: string;
+  /** Models to try, in order, when the requested one fails (defaults to `FALLBACK_MODELS`) */
+  fallbackModels?: string[];
+  /** Run map-reduce over pages that don't fit the context window */
+  longDocument?: boolean;
+  /** Accepts a JSON Schema (or preset) and answers with validated JSON */
+  structuredOutput?: boolean;
+  /** Can return claims backed by quotes verified against the page */
+  citations?: boolean;
+  /** Works on `pages` instead of one page, answering with prose and a comparison table */
+  multiPage?: boolean;
+  /** Translates the selection or page into the response language, keeping markdown and code intact */
+  translation?: boolean;
+  /** Refused in strict injection mode when the page looks like a prompt injection */
+  refuseOnInjection?: boolean;
+  /** Spoken phrases that pick this feature in `/api/voice` */
+  voiceTriggers?: string[];
+}
+
+interface FeatureConfigFile {
+  features: Array<Partial<FeatureDefinition> & { id: string; disabled?: boolean }>;
+}
+
+const DEFAULT_CONFIG_PATH = 'features.config.json';
+
+const FEATURE_INPUTS: FeatureInput[] = ['query', 'selectedText', 'mainText', 'featurePrompt'];
+
+const BUILT_IN_FEATURES: FeatureDefinition[] = [
+  {
+    id: 'search',
+    label: 'Search',
+    description: 'Research a topic and answer in depth',
+    systemInstructions: 'Provide comprehensive, well-researched answers. Include relevant details and sources when possible.',
+    taskTemplate: 'Search and provide information about: {query}',
+    temperature: 0.7,
+    maxTokens: 2048,
+    requiredInputs: ['query'],
+    voiceTriggers: ['search for', 'look up', 'find information about'],
+  },
+  {
+    id: 'explain',
+    label: 'Explain',
+    description: 'Explain a concept or the selected text in simple terms',
+    systemInstructions: 'Break down complex concepts into simple, easy-to-understand terms. Use analogies and examples.',
+    taskTemplate: 'Explain: {query}',
+    temperature: 0.3,
+    maxTokens: 2048,
+    requiredInputs: ['query'],
+    voiceTriggers: ['explain', 'what does this mean', 'what does that mean', 'break down', 'simplify', 'in simple terms'],
+  },
+  {
+    id: 'summarize',
+    label: 'Summarize',
+    description: 'Summarize the page or selection',
+    systemInstructions: 'Focus on key points and main ideas. Be concise but comprehensive.',
+    taskTemplate: 'Summarize the content focusing on: {query}',
+    taskTemplateWithoutQuery: 'Summarize the content',
+    temperature: 0.2,
+    maxTokens: 1024,
+    requiredInputs: [],
+    citations: true,
+    longDocument: true,
+    voiceTriggers: ['summarize', 'summarise', 'summary', 'sum up', 'tl;dr', 'tldr', 'key points', 'gist'],
+  },
+  {
+    id: 'extract',
+    label: 'Extract',
+    description: 'Pull structured information out of the page',
+    systemInstructions: 'Organize information in a structured format. Use tables, lists, or bullet points when helpful.',
+    taskTemplate: 'Extract key information related to: {query}',
+    taskTemplateWithoutQuery: 'Extract key information',
+    temperature: 0.1,
+    maxTokens: 1024,
+    requiredInputs: [],
+    longDocument: true,
+    structuredOutput: true,
+    voiceTriggers: ['extract', 'pull out', 'list all', 'list the', 'make a table'],
+  },
+  {
+    id: 'analyze',
+    label: 'Analyze',
+    description: 'Critically analyze the content',
+    systemInstructions: 'Provide critical analysis with balanced perspectives. Support your analysis with evidence.',
+    taskTemplate: 'Analyze: {query}',
+    temperature: 0.5,
+    maxTokens: 2048,
+    requiredInputs: ['query'],
+    citations: true,
+    voiceTriggers: ['analyze', 'analyse', 'critique', 'evaluate', 'pros and cons'],
+  },
+  {
+    id: 'reply',
+    label: 'Reply',
+    description: 'Draft a reply to an email, comment or message',
+    systemInstructions: 'Craft professional, context-appropriate responses. Match the tone to the situation.',
+    taskTemplate: 'Compose a reply: {query}',
+    temperature: 0.6,
+    maxTokens: 512,
+    requiredInputs: ['query'],
+    refuseOnInjection: true,
+    voiceTriggers: ['reply', 'respond to', 'write a response', 'draft a response', 'write back'],
+  },
+  {
+    id: 'ask',
+    label: 'Ask',
+    description: 'Ask a question about the page',
+    systemInstructions: 'Answer questions accurately based on the provided context. Cite specific parts of the content when relevant.',
+    taskTemplate: 'Answer: {query}',
+    temperature: 0.3,
+    maxTokens: 2048,
+    requiredInputs: ['query'],
+    citations: true,
+  },
+  {
+    id: 'compare',
+    label: 'Compare',
+    description: 'Compare several pages side by side',
+    systemInstructions: 'Compare the sources point by point. Be specific about how they differ and where they agree, and say when a source does not cover a point.',
+    taskTemplate: 'Compare the sources, focusing on: {query}',
+    taskTemplateWithoutQuery: 'Compare the sources',
+    temperature: 0.2,
+    maxTokens: 2048,
+    requiredInputs: [],
+    multiPage: true,
+    voiceTriggers: ['compare', 'side by side', 'which is better'],
+  },
+  {
+    id: 'synthesize',
+    label: 'Synthesize',
+    description: 'Merge several pages into one overview',
+    systemInstructions: 'Combine the sources into one coherent account. Merge what they agree on, point out where they disagree, and attribute every point to the sources it comes from.',
+    taskTemplate: 'Synthesize the sources, focusing on: {query}',
+    taskTemplateWithoutQuery: 'Synthesize the sources',
+    temperature: 0.3,
+    maxTokens: 2048,
+    requiredInputs: [],
+    multiPage: true,
+    voiceTriggers: ['synthesize', 'synthesise', 'combine these', 'merge these'],
+  },
+  {
+    id: 'translate',
+    label: 'Translate',
+    description: 'Translate the selection or page into another language',
+    systemInstructions: 'Translate faithfully and naturally. Keep the meaning, tone and formatting of the original; do not summarize, add or leave anything out.',
+    taskTemplate: 'Translate the content, following these instructions: {query}',
+    taskTemplateWithoutQuery: 'Translate the content',
+    temperature: 0.1,
+    maxTokens: 4096,
+    requiredInputs: [],
+    translation: true,
+    voiceTriggers: ['translate', 'what does this say in'],
+  },
+  {
+    id: 'stt',
+    label: 'Voice input',
+    description: 'Process a transcribed voice request',
+    systemInstructions: 'Process spoken input naturally and contextually.',
+    taskTemplate: 'Process spoken input: {query}',
+    temperature: 0.4,
+    maxTokens: 1024,
+    requiredInputs: ['query'],
+  },
+  {
+    id: 'custom',
+    label: 'Custom prompt',
+    description: 'Run a caller-supplied instruction (featurePrompt)',
+    systemInstructions: '',
+    taskTemplate: '{query}',
+    temperature: 0.7,
+    maxTokens: 2048,
+    requiredInputs: ['query', 'featurePrompt'],
+    refuseOnInjection: true,
+  },
+];
+
+function validateDefinition(definition: FeatureDefinition, source: string) {
+  const problems = [
+    !/^[a-z][a-z0-9_-]*$/.test(definition.id) && 'id must be lowercase letters, digits, - or _',
+    !definition.label && 'label is required',
+    typeof definition.systemInstructions !== 'string' && 'systemInstructions must be a string',
+    !definition.taskTemplate && 'taskTemplate is required',
+    !(definition.temperature >= 0 && definition.temperature <= 2) && 'temperature must be between 0 and 2',
+    !(Number.isInteger(definition.maxTokens) && definition.maxTokens > 0) && 'maxTokens must be a positive integer',
+    (!Array.isArray(definition.requiredInputs) ||
+      definition.requiredInputs.some((input) => !FEATURE_INPUTS.includes(input))) &&
+      `requiredInputs may only contain: ${FEATURE_INPUTS.join(', ')}`,
+    definition.voiceTriggers !== undefined &&
+      (!Array.isArray(definition.voiceTriggers) ||
+        definition.voiceTriggers.some((trigger) => typeof trigger !== 'string' || !trigger.trim())) &&
+      'voiceTriggers must be an array of non-empty strings',
+    definition.fallbackModels !== undefined &&
+      (!Array.isArray(definition.fallbackModels) ||
+        definition.fallbackModels.some((model) => typeof model !== 'string' || !model.trim())) &&
+      'fallbackModels must be an array of non-empty strings',
+  ].filter(Boolean);
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid feature "${definition.id}" in ${source}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Holds every feature the API understands. Built-in features can be
+ * overridden, disabled or extended from a JSON file (`FEATURES_CONFIG`,
+ * default `features.config.json`), which is re-read when it changes.
+ */
+export class FeatureRegistry {
+  private features = new Map<string, FeatureDefinition>();
+  private loadedMtime: number | null = null;
+
+  private getConfigPath() {
+    return path.resolve(process.cwd(), process.env.FEATURES_CONFIG || DEFAULT_CONFIG_PATH);
+  }
+
+  private ensureLoaded() {
+    const configPath = this.getConfigPath();
+    const mtime = fs.existsSync(configPath) ? fs.statSync(configPath).mtimeMs : 0;
+
+    if (this.loadedMtime === mtime && this.features.size > 0) {
+      return;
+    }
+
+    const features = new Map(BUILT_IN_FEATURES.map((feature) => [feature.id, feature]));
+
+    if (mtime) {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as FeatureConfigFile;
+      if (!Array.isArray(config.features)) {
+        throw new Error(`${configPath} must contain a "features" array`);
+      }
+
+      for (const entry of config.features) {
+        const { disabled, ...overrides } = entry;
+        if (disabled) {
+          features.delete(entry.id);
+          continue;
+        }
+
+        const definition = { ...features.get(entry.id), ...overrides } as FeatureDefinition;
+        validateDefinition(definition, configPath);
+        features.set(definition.id, definition);
+      }
+
+      log.info('Loaded feature config', {
+        path: configPath,
+        features: features.size,
+      });
+    }
+
+    this.features = features;
+    this.loadedMtime = mtime;
+  }
+
+  list(): FeatureDefinition[] {
+    this.ensureLoaded();
+    return [...this.features.values()];
+  }
+
+  ids(): string[] {
+    return this.list().map((feature) => feature.id);
+  }
+
+  get(id: string): FeatureDefinition | undefined {
+    this.ensureLoaded();
+    return this.features.get(id);
+  }
+
+  require(id: string): FeatureDefinition {
+    const definition = this.get(id);
+    if (!definition) {
+      throw new Error(`Unknown feature: ${id}`);
+    }
+    return definition;
+  }
+
+  renderTask(definition: FeatureDefinition, query?: string): string {
+    const template =
+      !query && definition.taskTemplateWithoutQuery
+        ? definition.taskTemplateWithoutQuery
+        : definition.taskTemplate;
+
+    // Without a query, "Review: {query}" becomes "Review"
+    return template.replace(/\{query\}/g, query || '').replace(/[\s:]+$/, '').trim();
+  }
+
+  /** The feature's own fallback list, or the comma separated `FALLBACK_MODELS` for every feature. */
+  getFallbackModels(definition: FeatureDefinition): string[] {
+    return definition.fallbackModels ?? getFallbackModelsFromEnv('FALLBACK_MODELS');
+  }
+}
+
+// Export a singleton instance
+export const featureRegistry = new FeatureRegistry();
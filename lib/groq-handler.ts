@@ -1,104 +1,1181 @@
 // lib/groq-handler.ts
-import Groq from 'groq-sdk';
+import crypto from 'crypto';
+import { audioProcessor, type AudioChunk } from './audio-processor';
 import { AudioUtils } from './audio-utils';
-import fs from 'fs';
-import os from 'os';
-import path from 'path';
-
-interface ProcessRequest {
-  action?: string;
-  feature: string;
-  featurePrompt?: string;
-  conversationHistory?: any[];
-  query?: string;
-  userQuery?: string;
-  pageInfo?: any;
+import {
+  CITATION_NOTE,
+  CITED_ANSWER_SCHEMA,
+  groundClaims,
+  type CitationReport,
+  type CitedAnswer,
+  type GroundedClaim,
+} from './citations';
+import { budgetContext, estimateTokens, type ContextReport } from './context-budget';
+import { conversationStore } from './conversation-store';
+import { ApiError, ErrorCodes } from './errors';
+import { featureRegistry } from './features';
+import type { ExtractionReport } from './html-extract';
+import { validateAgainstSchema, type JsonSchema } from './json-schema';
+import { buildLanguageNote, detectLanguage, normalizeLanguage } from './languages';
+import { createLogger } from './logger';
+import { chunkDocument, getLongDocumentLimits, type LongDocumentInfo } from './long-document';
+import { metrics } from './metrics';
+import {
+  buildComparisonNote,
+  COMPARISON_SCHEMA,
+  renderComparison,
+  toComparisonTable,
+  toPageSources,
+  type ComparisonTable,
+  type PageSource,
+} from './multi-page';
+import { containsPlaceholders, PII_NOTE } from './pii';
+import { applyPrivacyPolicy, type PrivacyContext, type PrivacyReport } from './privacy-policy';
+import {
+  detectInjection,
+  PAGE_CONTENT_RULE,
+  resolveInjectionMode,
+  sanitizeTitle,
+  wrapUntrusted,
+  type InjectionWarning,
+} from './prompt-injection';
+import { getProvider } from './providers';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  ChatMessage,
+  LLMProvider,
+  SpeechFormat,
+  SpeechParams,
+  SpeechResult,
+  TokenUsage,
+  TranscriptSegment,
+  TranscriptWord,
+} from './providers';
+import { readPageHtml, type Feature, type HistoryMessage, type PageInfo, type ProcessRequest } from './request-schema';
+import { hashCacheKey, responseCache, type CacheInfo } from './response-cache';
+import { responseStore } from './response-store';
+import { SPEECH_MIME_TYPES, splitSpeechChunks, stripMarkdown } from './speech-text';
+import {
+  buildRepairPrompt,
+  buildSchemaNote,
+  describeViolations,
+  parseJsonOutput,
+  toCsv,
+} from './structured-output';
+import {
+  getAgentLimits,
+  TOOLS_NOTE,
+  toolRegistry,
+  type ToolReport,
+  type ToolTraceEntry,
+} from './tools';
+import { shiftTranscript } from './transcript-format';
+import {
+  buildTranslationNote,
+  checkCodeBlocks,
+  getTranslationSource,
+  planTranslation,
+  restoreCodeBlocks,
+  type TranslationInfo,
+} from './translation';
+import {
+  callUpstream,
+  classifyUpstreamError,
+  getFallbackModelsFromEnv,
+  withFallbacks,
+  type FallbackInfo,
+} from './upstream';
+
+const log = createLogger('groq-handler');
+
+export type StreamEvent =
+  | { type: 'progress'; stage: 'map' | 'reduce'; completed: number; total: number }
+  | { type: 'tool'; call: ToolTraceEntry }
+  | { type: 'delta'; content: string }
+  | {
+      type: 'done';
+      model: string;
+      provider: string;
+      usage?: TokenUsage;
+      context: ContextReport;
+      longDocument?: LongDocumentInfo;
+      conversationId?: string;
+      responseId: string;
+      cache: CacheInfo;
+      fallback?: FallbackInfo;
+      privacy: PrivacyReport;
+      warnings?: InjectionWarning[];
+      data?: unknown;
+      structured?: StructuredInfo;
+      csv?: string;
+      claims?: GroundedClaim[];
+      citations?: CitationReport;
+      comparison?: ComparisonTable;
+      sources?: SourceRef[];
+      translation?: TranslationInfo;
+      tools?: ToolReport;
+      extraction?: ExtractionReport;
+    };
+
+type ProgressEvent = Extract<StreamEvent, { type: 'progress' }>;
+type ToolEvent = Extract<StreamEvent, { type: 'tool' }>;
+
+export type SpeechEvent =
+  | {
+      type: 'audio';
+      index: number;
+      total: number;
+      text: string;
+      /** Base64 audio for this chunk */
+      audio: string;
+      mimeType: string;
+    }
+  | { type: 'done'; chunks: number; model: string; voice: string; provider: string; format: SpeechFormat };
+
+interface SpeechOptions {
+  format: SpeechFormat;
   model?: string;
+  voice?: string;
+  speed?: number;
+  provider?: string;
+}
+
+interface PreparedSpeech {
+  provider: LLMProvider;
+  model: string;
+  voice: string;
+  chunks: string[];
+}
+
+interface StructuredInfo {
+  /** Preset name, or `custom` */
+  schema: string;
+  /** Model calls made, including repair retries */
+  attempts: number;
+  /** The JSON was only parseable after stripping fences or trailing commas */
+  repaired: boolean;
+}
+
+interface StructuredCompletion {
+  content: string;
+  data: unknown;
+  model: string;
+  usage?: TokenUsage;
+  structured: StructuredInfo;
+  csv?: string;
+  cache: CacheInfo;
+  fallback?: FallbackInfo;
+}
+
+/** A page of a multi-page request as listed in the response */
+type SourceRef = Omit<PageSource, 'text'>;
+
+/** What a structured completion adds to the response: JSON output, a cited answer, or a comparison */
+interface StructuredOutput {
+  response: string;
+  data?: unknown;
+  structured?: StructuredInfo;
+  csv?: string;
+  claims?: GroundedClaim[];
+  citations?: CitationReport;
+  comparison?: ComparisonTable;
+  sources?: SourceRef[];
+}
+
+const DEFAULT_STRUCTURED_ATTEMPTS = 3;
+
+interface PreparedCompletion {
+  provider: LLMProvider;
+  feature: Feature;
+  messages: ChatMessage[];
+  context: ContextReport;
+  model: string;
+  /** Tried in order when `model` fails */
+  fallbackModels: string[];
+  /** For translation features: the detected source language and the target */
+  translation?: TranslationInfo;
+}
+
+interface LongDocumentResult {
+  prepared: PreparedCompletion;
+  usage?: TokenUsage;
+  info: LongDocumentInfo;
+}
+
+/** A completion, and the model it fell back from if the requested one failed */
+interface UpstreamCompletion extends ChatCompletionResult {
+  fallback?: FallbackInfo;
+}
+
+interface CachedCompletion {
+  completion: UpstreamCompletion;
+  cache: CacheInfo;
+}
+
+/** The final answer of the agent loop, with usage summed over every step */
+interface AgentResult extends CachedCompletion {
+  tools: ToolReport;
+}
+
+interface TranscriptionOutput {
+  text: string;
+  /** The model that transcribed the audio */
+  model: string;
+  fallback?: FallbackInfo;
+  /** Seconds of audio, when it could be measured */
+  duration?: number;
+  chunks: number;
+  language?: string;
+  /** With `verbose_json`, timestamps are relative to the whole recording */
+  segments?: TranscriptSegment[];
+  words?: TranscriptWord[];
+  cache?: CacheInfo;
 }
 
 interface TranscriptionOptions {
   model?: string;
   prompt?: string;
-  response_format?: string;
+  response_format?: 'json' | 'verbose_json';
+  /** A code, or `auto` to have the model detect the language and report it as a code */
   language?: string;
   temperature?: number;
+  provider?: string;
+  /** Transcribe again even if the same audio is cached */
+  bypassCache?: boolean;
+}
+
+function isMultiPage(request: ProcessRequest): boolean {
+  return !!featureRegistry.require(request.feature).multiPage && !!request.pages?.length;
+}
+
+/** The schema the reply must match: the caller's, the cited-answer shape, or a comparison */
+function getOutputSchema(request: ProcessRequest): JsonSchema | undefined {
+  return (
+    request.schema ||
+    (request.citations ? CITED_ANSWER_SCHEMA : undefined) ||
+    (isMultiPage(request) ? COMPARISON_SCHEMA : undefined)
+  );
+}
+
+// The prompt's timestamp changes every minute; cached answers only need to match the day
+const DATE_LINE = /^Current date and time: .*$/m;
+
+function getChatCacheKey(provider: string, params: ChatCompletionParams): string {
+  const messages = params.messages.map((message) => ({
+    role: message.role,
+    content: message.content.replace(DATE_LINE, ''),
+    toolCalls: message.toolCalls,
+    toolCallId: message.toolCallId,
+  }));
+  const day = new Date().toISOString().slice(0, 10);
+  const tools = params.tools?.map((tool) => tool.name);
+  return hashCacheKey('chat', provider, params.model, params.temperature, params.max_tokens, day, messages, tools, params.toolChoice);
+}
+
+/** Feature-level counters for `/api/metrics`; a missing result means the request failed. */
+function recordFeatureMetrics(
+  feature: Feature,
+  started: number,
+  result?: { usage?: TokenUsage; cache?: CacheInfo; fallback?: FallbackInfo }
+) {
+  metrics.recordFeature(feature, {
+    durationMs: Math.round(performance.now() - started),
+    usage: result?.usage,
+    cacheHit: result?.cache?.status === 'hit',
+    fallback: !!result?.fallback,
+    error: !result,
+  });
+}
+
+/** Whether the privacy policy replaced anything the model will see */
+function hasPlaceholders({ pageInfo, pages = [], conversationHistory }: ProcessRequest): boolean {
+  return (
+    [pageInfo, ...pages].some(
+      (page) => !!page && [page.title, page.url, page.selectedText, page.mainText].some(containsPlaceholders)
+    ) || !!conversationHistory?.some((message) => containsPlaceholders(message.content))
+  );
+}
+
+/** Runs a generator to the end for its return value, dropping what it yields. */
+async function drain<T>(generator: AsyncGenerator<unknown, T>): Promise<T> {
+  let step = await generator.next();
+  while (!step.done) {
+    step = await generator.next();
+  }
+  return step.value;
+}
+
+/**
+ * What a failed completion is rethrown as: our ApiErrors (already
+ * classified by lib/upstream.ts) pass through, anything else is wrapped
+ * with the provider's name.
+ */
+function toProviderError(provider: LLMProvider, error: unknown): Error {
+  if (error instanceof ApiError) return error;
+  return new Error(`AI provider error (${provider.name}): ${error instanceof Error ? error.message : String(error)}`);
+}
+
+function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  };
 }
 
 export class GroqHandler {
-  private client: Groq;
-  private defaultModel: string;
+  async processRequest(request: ProcessRequest) {
+    const started = performance.now();
+    try {
+      const guarded = await this.guardRequest(request);
+      const result = {
+        ...(await this.runRequest(guarded.request, guarded.privacy)),
+        warnings: guarded.warnings,
+        extraction: guarded.extraction,
+      };
+      recordFeatureMetrics(request.feature, started, result);
+      return result;
+    } catch (error) {
+      recordFeatureMetrics(request.feature, started);
+      throw error;
+    }
+  }
 
-  constructor() {
-    if (!process.env.GROQ_API_KEY) {
-      throw new Error('GROQ_API_KEY environment variable is not set');
+  /**
+   * Streaming variant of processRequest. Yields content deltas as they arrive
+   * from the provider, followed by a single `done` event carrying the model and usage.
+   * Long documents first yield `progress` events while each chunk is processed.
+   */
+  async *processRequestStream(request: ProcessRequest): AsyncGenerator<StreamEvent> {
+    const started = performance.now();
+    try {
+      const guarded = await this.guardRequest(request);
+      for await (const event of this.runRequestStream(guarded.request, guarded.privacy)) {
+        if (event.type === 'done') {
+          recordFeatureMetrics(request.feature, started, event);
+          yield { ...event, warnings: guarded.warnings, extraction: guarded.extraction };
+        } else {
+          yield event;
+        }
+      }
+    } catch (error) {
+      recordFeatureMetrics(request.feature, started);
+      throw error;
     }
-    this.client = new Groq({ apiKey: process.env.GROQ_API_KEY });
-    this.defaultModel = 'meta-llama/llama-4-maverick-17b-128e-instruct';
   }
 
-  async processRequest(request: ProcessRequest) {
+  private async runRequest(request: ProcessRequest, privacy: PrivacyContext) {
+    let prepared = this.prepareCompletion(request);
+    let longDocument: LongDocumentResult | undefined;
+
+    if (this.shouldUseLongDocumentMode(request, prepared.context)) {
+      longDocument = await drain(this.mapLongDocument(request, prepared));
+      prepared = longDocument.prepared;
+    }
+
+    if (getOutputSchema(request)) {
+      const result = await this.completeStructured(request, prepared);
+      const output = this.toStructuredOutput(request, result, privacy);
+      const responseId = await this.recordTurn(request, output.response, result.model);
+
+      return {
+        ...(privacy.restore ? privacy.redactor.restoreDeep(output) : output),
+        model: result.model,
+        provider: prepared.provider.name,
+        usage: addUsage(longDocument?.usage, result.usage),
+        context: prepared.context,
+        longDocument: longDocument?.info,
+        conversationId: request.conversationId,
+        responseId,
+        cache: result.cache,
+        fallback: result.fallback,
+        privacy: privacy.report,
+      };
+    }
+
+    const { provider, feature, messages, context, model, fallbackModels, translation } = prepared;
+
+    try {
+      const { completion, cache, tools }: CachedCompletion & { tools?: ToolReport } = request.tools?.length
+        ? await drain(this.runAgent(request, prepared))
+        : await this.createCompletion(
+            provider,
+            {
+              messages,
+              model,
+              temperature: this.getTemperatureForFeature(feature),
+              max_tokens: this.getMaxTokensForFeature(feature),
+              top_p: 1,
+            },
+            request.bypassCache,
+            fallbackModels
+          );
+
+      log.info('Response generated', {
+        feature,
+        provider: provider.name,
+        responseLength: completion.content.length,
+        model: completion.model,
+        tokensUsed: completion.usage?.total_tokens,
+        cache: cache.status,
+        fallbackFrom: completion.fallback?.requestedModel,
+      });
+
+      // Code blocks the model touched are put back from the page
+      const { text: content, codeBlocks } = translation
+        ? restoreCodeBlocks(getTranslationSource(request.pageInfo), completion.content)
+        : { text: completion.content, codeBlocks: undefined };
+      const responseId = await this.recordTurn(request, content, completion.model);
+
+      return {
+        response: privacy.restore ? privacy.redactor.restore(content) : content,
+        model: completion.model,
+        provider: provider.name,
+        usage: addUsage(longDocument?.usage, completion.usage),
+        context,
+        longDocument: longDocument?.info,
+        conversationId: request.conversationId,
+        responseId,
+        cache,
+        fallback: completion.fallback,
+        privacy: privacy.report,
+        translation: translation && { ...translation, codeBlocks },
+        tools: tools && privacy.restore ? privacy.redactor.restoreDeep(tools) : tools,
+      };
+    } catch (error) {
+      log.error('Completion failed', { provider: provider.name, error });
+      throw toProviderError(provider, error);
+    }
+  }
+
+  private async *runRequestStream(request: ProcessRequest, privacy: PrivacyContext): AsyncGenerator<StreamEvent> {
+    let prepared = this.prepareCompletion(request);
+    let longDocument: LongDocumentResult | undefined;
+
+    if (this.shouldUseLongDocumentMode(request, prepared.context)) {
+      longDocument = yield* this.mapLongDocument(request, prepared);
+      prepared = longDocument.prepared;
+    }
+
+    // Structured output has to be validated whole, so it arrives as one delta
+    if (getOutputSchema(request)) {
+      const result = await this.completeStructured(request, prepared);
+      const structuredOutput = this.toStructuredOutput(request, result, privacy);
+      const responseId = await this.recordTurn(request, structuredOutput.response, result.model);
+      const { response, ...output } = privacy.restore
+        ? privacy.redactor.restoreDeep(structuredOutput)
+        : structuredOutput;
+
+      yield { type: 'delta', content: response };
+      yield {
+        type: 'done',
+        model: result.model,
+        provider: prepared.provider.name,
+        usage: addUsage(longDocument?.usage, result.usage),
+        context: prepared.context,
+        longDocument: longDocument?.info,
+        conversationId: request.conversationId,
+        responseId,
+        cache: result.cache,
+        fallback: result.fallback,
+        privacy: privacy.report,
+        ...output,
+      };
+      return;
+    }
+
+    // Tool calls are resolved before any text is sent, so the answer arrives as one delta
+    if (request.tools?.length) {
+      const agent = this.runAgent(request, prepared);
+      let step = await agent.next();
+      while (!step.done) {
+        yield privacy.restore ? privacy.redactor.restoreDeep(step.value) : step.value;
+        step = await agent.next();
+      }
+
+      const { completion, cache, tools } = step.value;
+      const { text: content, codeBlocks } = prepared.translation
+        ? restoreCodeBlocks(getTranslationSource(request.pageInfo), completion.content)
+        : { text: completion.content, codeBlocks: undefined };
+      const responseId = await this.recordTurn(request, content, completion.model);
+
+      yield { type: 'delta', content: privacy.restore ? privacy.redactor.restore(content) : content };
+      yield {
+        type: 'done',
+        model: completion.model,
+        provider: prepared.provider.name,
+        usage: completion.usage,
+        context: prepared.context,
+        conversationId: request.conversationId,
+        responseId,
+        cache,
+        fallback: completion.fallback,
+        privacy: privacy.report,
+        translation: prepared.translation && { ...prepared.translation, codeBlocks },
+        tools: privacy.restore ? privacy.redactor.restoreDeep(tools) : tools,
+      };
+      return;
+    }
+
+    const { provider, feature, messages, context, model, fallbackModels, translation } = prepared;
+
+    let responseText = '';
+    let responseModel = model;
+    let usage: TokenUsage | undefined;
+    let fallback: FallbackInfo | undefined;
+    // Placeholders can be split across deltas, so restoring holds back a partial one
+    const restorer = privacy.restore ? privacy.redactor.createStreamRestorer() : undefined;
+
+    const params: ChatCompletionParams = {
+      messages,
+      model,
+      temperature: this.getTemperatureForFeature(feature),
+      max_tokens: this.getMaxTokensForFeature(feature),
+      top_p: 1,
+    };
+    const cacheKey = responseCache.isCacheable(params.temperature) ? getChatCacheKey(provider.name, params) : undefined;
+    const cached = cacheKey && !request.bypassCache ? responseCache.get<UpstreamCompletion>(cacheKey) : undefined;
+    const cache: CacheInfo = cached
+      ? { status: 'hit', age: cached.age }
+      : { status: !cacheKey ? 'skip' : request.bypassCache ? 'bypass' : 'miss' };
+
+    try {
+      // A cached answer arrives as one delta
+      let stream: Iterable<ChatCompletionChunk> | AsyncIterable<ChatCompletionChunk>;
+      if (cached) {
+        stream = [{ content: cached.value.content, model: cached.value.model }];
+        fallback = cached.value.fallback;
+      } else {
+        const opened = await this.openStream(provider, params, fallbackModels);
+        stream = opened.stream;
+        responseModel = opened.model;
+        fallback = opened.fallback;
+      }
+
+      for await (const chunk of stream) {
+        responseModel = chunk.model || responseModel;
+        usage = chunk.usage || usage;
+
+        if (chunk.content) {
+          responseText += chunk.content;
+          const content = restorer ? restorer.push(chunk.content) : chunk.content;
+          if (content) yield { type: 'delta', content };
+        }
+      }
+
+      const rest = restorer?.flush();
+      if (rest) yield { type: 'delta', content: rest };
+    } catch (error) {
+      log.error('Stream failed', { provider: provider.name, model: responseModel, error });
+      throw classifyUpstreamError(error, { provider: provider.name, model: responseModel }).error;
+    }
+
+    if (!responseText) {
+      throw new Error(`No response content received from ${provider.name}`);
+    }
+
+    log.info('Response streamed', {
+      feature,
+      provider: provider.name,
+      responseLength: responseText.length,
+      model: responseModel,
+      tokensUsed: usage?.total_tokens,
+      cache: cache.status,
+      fallbackFrom: fallback?.requestedModel,
+    });
+
+    if (cacheKey && !cached) {
+      responseCache.set(cacheKey, {
+        content: responseText,
+        model: responseModel,
+        usage,
+        fallback,
+      } satisfies UpstreamCompletion);
+    }
+
+    const responseId = await this.recordTurn(request, responseText, responseModel);
+
+    yield {
+      type: 'done',
+      model: responseModel,
+      provider: provider.name,
+      usage: addUsage(longDocument?.usage, usage),
+      context,
+      longDocument: longDocument?.info,
+      conversationId: request.conversationId,
+      responseId,
+      cache,
+      fallback,
+      privacy: privacy.report,
+      // Deltas have gone out already, so code blocks are only checked, not restored
+      translation: translation && {
+        ...translation,
+        codeBlocks: checkCodeBlocks(getTranslationSource(request.pageInfo), responseText),
+      },
+    };
+  }
+
+  /**
+   * Starts a provider stream, with retries and fallbacks until the first
+   * chunk arrives. After that, text has already gone to the client, so a
+   * failure ends the stream instead.
+   */
+  private async openStream(
+    provider: LLMProvider,
+    params: ChatCompletionParams,
+    fallbackModels: string[]
+  ): Promise<{ stream: AsyncIterable<ChatCompletionChunk>; model: string; fallback?: FallbackInfo }> {
+    const { value, model, fallback } = await callUpstream(
+      provider.name,
+      withFallbacks(params.model, fallbackModels),
+      async (model, signal) => {
+        const iterator = provider.streamChatCompletion({ ...params, model, signal })[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      }
+    );
+
+    async function* replay(): AsyncGenerator<ChatCompletionChunk> {
+      let step = value.first;
+      while (!step.done) {
+        yield step.value;
+        step = await value.iterator.next();
+      }
+    }
+
+    return { stream: replay(), model, fallback };
+  }
+
+  /**
+   * One chat completion through the response cache, with retries and
+   * fallback models (see lib/upstream.ts). Answers are cached under the
+   * requested model, whichever model gave them. Hits cost nothing upstream,
+   * so they report no usage.
+   */
+  private async createCompletion(
+    provider: LLMProvider,
+    params: ChatCompletionParams,
+    bypassCache = false,
+    fallbackModels: string[] = []
+  ): Promise<CachedCompletion> {
+    const complete = async (): Promise<UpstreamCompletion> => {
+      const { value, fallback } = await callUpstream(
+        provider.name,
+        withFallbacks(params.model, fallbackModels),
+        async (model, signal) => {
+          const completion = await provider.createChatCompletion({ ...params, model, signal });
+          if (!completion.content && !completion.toolCalls?.length) {
+            throw new Error(`No response content received from ${provider.name}`);
+          }
+          return completion;
+        }
+      );
+      return { ...value, fallback };
+    };
+
+    if (!responseCache.isCacheable(params.temperature)) {
+      return { completion: await complete(), cache: { status: 'skip' } };
+    }
+
+    const { value, cache } = await responseCache.remember(getChatCacheKey(provider.name, params), complete, {
+      bypass: bypassCache,
+    });
+    return { completion: cache.status === 'hit' ? { ...value, usage: undefined } : value, cache };
+  }
+
+  /**
+   * Lets the model call the request's tools before it answers. Each step is
+   * one completion; the calls it asks for run server-side and their results
+   * go back in the next step. On the last step (`AGENT_MAX_STEPS`), or once
+   * `AGENT_MAX_TOOL_CALLS` calls have run, tools are switched off and the
+   * model has to answer with what it has. Yields each call as it finishes.
+   */
+  private async *runAgent(
+    request: ProcessRequest,
+    prepared: PreparedCompletion
+  ): AsyncGenerator<ToolEvent, AgentResult> {
+    const { provider, feature, model, fallbackModels } = prepared;
+    const limits = getAgentLimits();
+    const tools = toolRegistry.specs(request.tools || []);
+    const context = { pageInfo: request.pageInfo, tools: tools.map(({ name }) => name), now: new Date() };
+    const messages = [...prepared.messages];
+    const calls: ToolTraceEntry[] = [];
+    let usage: TokenUsage | undefined;
+
+    for (let step = 1; ; step++) {
+      const limitReached = step >= limits.maxSteps || calls.length >= limits.maxCalls;
+      let result: CachedCompletion;
+      try {
+        result = await this.createCompletion(
+          provider,
+          {
+            messages: [...messages],
+            model,
+            temperature: this.getTemperatureForFeature(feature),
+            max_tokens: this.getMaxTokensForFeature(feature),
+            top_p: 1,
+            tools,
+            toolChoice: limitReached ? 'none' : 'auto',
+          },
+          request.bypassCache,
+          fallbackModels
+        );
+      } catch (error) {
+        log.error('Completion failed', { provider: provider.name, step, error });
+        throw toProviderError(provider, error);
+      }
+
+      const { completion, cache } = result;
+      usage = addUsage(usage, completion.usage);
+
+      if (!completion.toolCalls?.length || limitReached) {
+        if (!completion.content) {
+          throw new Error(`No response content received from ${provider.name}`);
+        }
+        log.info('Agent finished', { feature, steps: step, toolCalls: calls.length, limitReached });
+        return {
+          completion: { ...completion, toolCalls: undefined, usage },
+          cache,
+          tools: { calls, steps: step, limitReached },
+        };
+      }
+
+      messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+      for (const call of completion.toolCalls) {
+        // Calls over the budget are answered without running, so every call still gets a result
+        const { entry, content } =
+          calls.length < limits.maxCalls
+            ? await toolRegistry.execute(call, context)
+            : {
+                entry: { id: call.id, name: call.name, arguments: call.arguments, error: 'Tool call limit reached', durationMs: 0 },
+                content: 'Error: Tool call limit reached; answer with what you have.',
+              };
+        calls.push(entry);
+        messages.push({ role: 'tool', toolCallId: call.id, content });
+        yield { type: 'tool', call: entry };
+      }
+    }
+  }
+
+  /**
+   * Asks for JSON matching the request's schema and validates the reply.
+   * Invalid replies are sent back to the model with the validation errors
+   * for another try, up to `STRUCTURED_MAX_ATTEMPTS` calls in total.
+   */
+  private async completeStructured(
+    request: ProcessRequest,
+    prepared: PreparedCompletion
+  ): Promise<StructuredCompletion> {
+    const { provider, feature, model, fallbackModels } = prepared;
+    const schema = getOutputSchema(request) as JsonSchema;
+    const schemaName =
+      request.schemaName || (request.schema ? 'custom' : request.citations ? 'citations' : 'comparison');
+    const configured = parseInt(process.env.STRUCTURED_MAX_ATTEMPTS || '', 10);
+    const maxAttempts = configured > 0 ? configured : DEFAULT_STRUCTURED_ATTEMPTS;
+
+    const messages = [...prepared.messages];
+    let usage: TokenUsage | undefined;
+    let problem = '';
+    let lastContent = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let completion;
+      let cache: CacheInfo;
+      try {
+        ({ completion, cache } = await this.createCompletion(
+          provider,
+          {
+            messages: [...messages],
+            model,
+            temperature: this.getTemperatureForFeature(feature),
+            max_tokens: this.getMaxTokensForFeature(feature),
+            top_p: 1,
+          },
+          request.bypassCache,
+          fallbackModels
+        ));
+      } catch (error) {
+        log.error('Completion failed', { provider: provider.name, error });
+        throw toProviderError(provider, error);
+      }
+
+      usage = addUsage(usage, completion.usage);
+      lastContent = completion.content;
+
+      const parsed = parseJsonOutput(completion.content);
+      if ('error' in parsed) {
+        problem = parsed.error;
+      } else {
+        const violations = validateAgainstSchema(parsed.value, schema);
+        if (violations.length === 0) {
+          log.info('Structured output validated', {
+            schema: schemaName,
+            attempts: attempt,
+            repaired: parsed.repaired,
+          });
+
+          return {
+            content: JSON.stringify(parsed.value, null, 2),
+            data: parsed.value,
+            model: completion.model,
+            usage,
+            structured: { schema: schemaName, attempts: attempt, repaired: parsed.repaired },
+            csv: request.csv ? toCsv(parsed.value) : undefined,
+            cache,
+            fallback: completion.fallback,
+          };
+        }
+        problem = describeViolations(violations);
+      }
+
+      log.warn('Structured output failed validation', { attempt, problem });
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(problem) }
+      );
+    }
+
+    throw new ApiError(
+      ErrorCodes.STRUCTURED_OUTPUT_INVALID,
+      `The model did not produce valid JSON for the schema after ${maxAttempts} attempts: ${problem}`,
+      502,
+      { output: lastContent, usage }
+    );
+  }
+
+  /**
+   * Shapes a validated completion for the response. Cited answers become
+   * markdown plus claims whose quotes were checked against the page text.
+   * Quotes are matched against the page as the client sent it, with any
+   * redacted values put back, so offsets point into the client's copy; they
+   * are scrubbed again afterwards unless the answer is being restored.
+   */
+  private toStructuredOutput(
+    request: ProcessRequest,
+    result: StructuredCompletion,
+    privacy?: PrivacyContext
+  ): StructuredOutput {
+    if (isMultiPage(request)) {
+      const sources = toPageSources(request.pages);
+      const { answer, table } = toComparisonTable(result.data, sources);
+      return {
+        response: `${answer}\n\n${renderComparison(table, sources)}`,
+        comparison: table,
+        sources: sources.map(({ id, title, url }) => ({ id, title, url })),
+      };
+    }
+
+    if (request.schema || !request.citations) {
+      return { response: result.content, data: result.data, structured: result.structured, csv: result.csv };
+    }
+
+    const cited = result.data as CitedAnswer;
+    const { claims, report } = groundClaims(
+      privacy ? privacy.redactor.restoreDeep(cited.claims) : cited.claims,
+      privacy?.originalPageInfo ?? request.pageInfo,
+      request.unmatchedCitations
+    );
+
+    log.info('Citations checked', { ...report });
+
+    const scrub = privacy && !privacy.restore ? (text: string) => privacy.redactor.scrub(text) : undefined;
+    return {
+      response: cited.answer,
+      claims: scrub
+        ? claims.map((claim) => ({
+            ...claim,
+            claim: scrub(claim.claim),
+            quotes: claim.quotes.map((quote) => ({ ...quote, text: scrub(quote.text) })),
+          }))
+        : claims,
+      citations: report,
+    };
+  }
+
+  /**
+   * Everything that happens before a request may go upstream: page HTML is
+   * read, the stored conversation is loaded, the privacy policy applied, and
+   * the page checked for prompt injection. In strict mode, features that
+   * refuse on injection fail here.
+   */
+  private async guardRequest(request: ProcessRequest) {
+    const read = readPageHtml(request);
+    const { request: scrubbed, privacy } = applyPrivacyPolicy(await this.attachConversation(read));
+    const warnings = detectInjection(scrubbed.pageInfo, scrubbed.pages);
+
+    if (warnings.length > 0) {
+      const mode = resolveInjectionMode(request.injectionMode);
+      const refused = mode === 'strict' && !!featureRegistry.require(request.feature).refuseOnInjection;
+      log.warn('Possible prompt injection', {
+        feature: request.feature,
+        patterns: warnings.map((warning) => warning.pattern),
+        mode,
+        refused,
+      });
+
+      if (refused) {
+        throw new ApiError(
+          ErrorCodes.PROMPT_INJECTION_SUSPECTED,
+          `The page appears to contain instructions aimed at the AI, so ${request.feature} was refused in strict mode`,
+          422,
+          { warnings }
+        );
+      }
+    }
+
+    return {
+      request: scrubbed,
+      privacy,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      extraction: read.pageInfo?.extraction,
+    };
+  }
+
+  /** Swaps in the stored history when the request names a server-side conversation. */
+  private async attachConversation(request: ProcessRequest): Promise<ProcessRequest> {
+    if (!request.conversationId) {
+      return request;
+    }
+
+    // Routes always set clientId; a request without one owns no conversation
+    const conversationHistory = await conversationStore.getHistory(request.clientId || '', request.conversationId);
+    log.debug('Loaded conversation', {
+      conversationId: request.conversationId,
+      messages: conversationHistory.length,
+    });
+
+    return { ...request, conversationHistory };
+  }
+
+  /** Keeps the answer addressable by id and appends it to the conversation, if any. */
+  private async recordTurn(request: ProcessRequest, response: string, model: string): Promise<string> {
+    const responseId = crypto.randomUUID();
+    responseStore.save({ id: responseId, clientId: request.clientId || '', text: response, feature: request.feature, model });
+
+    if (!request.conversationId) {
+      return responseId;
+    }
+
+    try {
+      await conversationStore.appendTurn(request.clientId || '', request.conversationId, {
+        responseId,
+        feature: request.feature,
+        query: request.query,
+        response,
+        model,
+        page: request.pageInfo && {
+          title: request.pageInfo.title,
+          url: request.pageInfo.url,
+        },
+      });
+    } catch (error) {
+      // The answer was generated; losing the history write shouldn't lose the answer
+      log.error('Failed to save conversation turn', { conversationId: request.conversationId, error });
+    }
+
+    return responseId;
+  }
+
+  private prepareCompletion(request: ProcessRequest, systemNote?: string): PreparedCompletion {
     const {
-      action,
       feature,
       featurePrompt,
       conversationHistory,
       query,
-      userQuery,
       pageInfo,
       model,
     } = request;
 
-    // Use userQuery if available, otherwise fall back to query
-    const finalQuery = userQuery || query;
+    const provider: LLMProvider = getProvider(request.provider);
+    const outputSchema = getOutputSchema(request);
+    const definition = featureRegistry.require(feature);
+    const resolvedModel = model || definition.defaultModel || provider.defaultChatModel;
+    const sources = isMultiPage(request) ? toPageSources(request.pages) : undefined;
+    const translation = definition.translation ? planTranslation(request) : undefined;
 
     // Build enhanced prompt with all available context
-    const messages : Array<{ role: string; content: string }> = this.buildEnhancedMessages(
+    const { messages, context } = this.buildEnhancedMessages(
       feature,
-      finalQuery,
+      resolvedModel,
+      query,
       pageInfo,
       conversationHistory,
-      featurePrompt
+      featurePrompt,
+      [
+        systemNote,
+        hasPlaceholders(request) && PII_NOTE,
+        sources && buildComparisonNote(sources),
+        request.citations && CITATION_NOTE,
+        outputSchema && buildSchemaNote(outputSchema),
+        request.tools?.length && TOOLS_NOTE,
+        translation
+          ? buildTranslationNote(translation)
+          : request.responseLanguage && buildLanguageNote(request.responseLanguage),
+      ]
+        .filter(Boolean)
+        .join('\n') || undefined,
+      sources
     );
 
-    try {
-      const completion = await this.client.chat.completions.create({
-        //@ts-expect-error- typing issues with Groq SDK
-        messages: messages,
-        model: model || this.defaultModel,
-        temperature: this.getTemperatureForFeature(feature),
-        max_tokens: this.getMaxTokensForFeature(feature),
-        top_p: 1,
-      });
+    return {
+      provider,
+      feature,
+      messages,
+      context,
+      model: resolvedModel,
+      fallbackModels: featureRegistry.getFallbackModels(definition),
+      translation,
+    };
+  }
 
-      if (!completion.choices?.[0]?.message?.content) {
-        throw new Error('No response content received from Groq API');
-      }
+  private shouldUseLongDocumentMode(request: ProcessRequest, context: ContextReport) {
+    // With tools, the model reads the parts of the page it needs instead
+    return (
+      !request.tools?.length &&
+      request.longDocument !== false &&
+      !!featureRegistry.require(request.feature).longDocument &&
+      !!context.mainText?.truncated
+    );
+  }
 
-      console.log('✅ GROQ HANDLER: Response generated with enhanced context', {
-        responseLength: completion.choices[0].message.content.length,
-        model: completion.model,
-        tokensUsed: completion.usage?.total_tokens,
-      });
+  /**
+   * Map phase for pages that don't fit the context window: runs the feature
+   * over each chunk of `mainText`, then returns a prepared reduce completion
+   * whose page content is the per-chunk notes. The number of upstream calls
+   * (map + reduce) never exceeds LONG_DOC_MAX_CALLS.
+   */
+  private async *mapLongDocument(
+    request: ProcessRequest,
+    prepared: PreparedCompletion
+  ): AsyncGenerator<ProgressEvent, LongDocumentResult> {
+    const { provider, feature, model, fallbackModels } = prepared;
+    const mainText = request.pageInfo?.mainText || '';
+    const limits = getLongDocumentLimits();
+    const maxMapCalls = limits.maxCalls - 1;
 
-      return {
-        response: completion.choices[0].message.content,
-        model: completion.model,
-        usage: completion.usage,
-      };
-    } catch (error: any) {
-      console.error('❌ GROQ HANDLER: Error:', error);
-      throw new Error(`Groq AI error: ${error.message}`);
+    // Room left for page content in a single map call
+    const probe = this.prepareCompletion(
+      {
+        ...request,
+        conversationHistory: undefined,
+        pageInfo: { ...request.pageInfo, mainText: undefined },
+      },
+      this.buildMapNote(feature, maxMapCalls, maxMapCalls)
+    );
+    const room = probe.context.promptBudget - probe.context.estimatedPromptTokens;
+
+    let chunkTokens = Math.max(256, Math.min(limits.chunkTokens, room));
+    let chunks = chunkDocument(mainText, { chunkTokens, overlapTokens: limits.overlapTokens });
+
+    // Too many chunks: grow them up to what one call can hold before giving up coverage
+    if (chunks.length > maxMapCalls && chunkTokens < room) {
+      chunkTokens = Math.min(
+        room,
+        Math.ceil(estimateTokens(mainText) / maxMapCalls) + limits.overlapTokens
+      );
+      chunks = chunkDocument(mainText, { chunkTokens, overlapTokens: limits.overlapTokens });
+    }
+
+    const processed = chunks.slice(0, maxMapCalls);
+
+    log.info('Long document mode', {
+      feature,
+      chunks: chunks.length,
+      processing: processed.length,
+      chunkTokens,
+    });
+
+    const notes: string[] = [];
+    let usage: TokenUsage | undefined;
+
+    for (let i = 0; i < processed.length; i++) {
+      yield { type: 'progress', stage: 'map', completed: i, total: processed.length };
+
+      const mapCompletion = this.prepareCompletion(
+        {
+          ...request,
+          conversationHistory: undefined,
+          pageInfo: { ...request.pageInfo, mainText: processed[i] },
+        },
+        this.buildMapNote(feature, i + 1, processed.length)
+      );
+
+      try {
+        const { completion } = await this.createCompletion(
+          provider,
+          {
+            messages: mapCompletion.messages,
+            model,
+            temperature: this.getTemperatureForFeature(feature),
+            max_tokens: this.getMaxTokensForFeature(feature),
+            top_p: 1,
+          },
+          request.bypassCache,
+          fallbackModels
+        );
+
+        usage = addUsage(usage, completion.usage);
+        if (completion.content) {
+          notes.push(`## Part ${i + 1} of ${processed.length}\n${completion.content}`);
+        }
+      } catch (error) {
+        log.error('Long document chunk failed', { provider: provider.name, chunk: i + 1, error });
+        throw toProviderError(provider, error);
+      }
     }
+
+    yield { type: 'progress', stage: 'reduce', completed: processed.length, total: processed.length };
+
+    const skipped = chunks.length - processed.length;
+    const reduce = this.prepareCompletion(
+      {
+        ...request,
+        pageInfo: { ...request.pageInfo, mainText: notes.join('\n\n') },
+      },
+      [
+        `The page was too long to read at once, so PAGE CONTENT below contains notes taken from ${processed.length} consecutive parts of it.`,
+        'Merge them into one coherent answer: remove duplicates caused by overlapping parts and keep the original order of the document.',
+        skipped > 0 &&
+          `Only the first ${processed.length} of ${chunks.length} parts were processed; say that the end of the page was not covered.`,
+      ]
+        .filter(Boolean)
+        .join(' ')
+    );
+
+    return {
+      prepared: reduce,
+      usage,
+      info: {
+        chunks: chunks.length,
+        processedChunks: processed.length,
+        skippedChunks: skipped,
+        upstreamCalls: processed.length + 1,
+      },
+    };
+  }
+
+  private buildMapNote(feature: Feature, part: number, total: number) {
+    const focus =
+      feature === 'extract'
+        ? 'Extract every relevant item from this part; notes from all parts will be merged later.'
+        : 'Summarize this part thoroughly, keeping facts, names and figures; summaries of all parts will be merged later.';
+
+    return `PAGE CONTENT below is part ${part} of ${total} of a longer document. ${focus}`;
   }
 
   private buildEnhancedMessages(
-    feature: string,
+    feature: Feature,
+    model: string,
     query: string = '',
-    pageInfo?: any,
-    conversationHistory: any[] = [],
-    featurePrompt?: string
+    pageInfo?: PageInfo,
+    conversationHistory: HistoryMessage[] = [],
+    featurePrompt?: string,
+    systemNote?: string,
+    sources?: PageSource[]
   ) {
-    const messages = [];
+    const messages: ChatMessage[] = [];
     const currentDate = new Date().toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -113,25 +1190,40 @@ export class GroqHandler {
       feature,
       featurePrompt,
       pageInfo,
-      currentDate
+      currentDate,
+      systemNote,
+      !!sources?.length
     );
     messages.push({ role: 'system', content: systemPrompt });
 
+    // Split the model's context window between selection, history and page content
+    const budget = budgetContext({
+      model,
+      maxCompletionTokens: this.getMaxTokensForFeature(feature),
+      systemPrompt,
+      userMessageBase: this.buildUserMessage(
+        feature,
+        query,
+        { ...pageInfo, selectedText: undefined, mainText: undefined },
+        sources?.map((source) => ({ ...source, text: '' }))
+      ),
+      selectedText: pageInfo?.selectedText,
+      mainText: pageInfo?.mainText,
+      pages: sources?.map((source) => source.text),
+      history: conversationHistory,
+    });
+
     // 2. CONVERSATION HISTORY (maintains context across interactions)
-    if (conversationHistory && conversationHistory.length > 0) {
-      console.log(
-        '📚 Including conversation history:',
-        conversationHistory.length,
-        'messages'
-      );
+    if (budget.historySummary) {
+      messages.push({ role: 'system', content: budget.historySummary });
+    }
 
-      conversationHistory.forEach((msg) => {
-        if (msg.content && msg.content.trim()) {
-          messages.push({
-            role: msg.type === 'user' ? 'user' : 'assistant',
-            content: msg.content,
-          });
-        }
+    if (budget.history.length > 0) {
+      budget.history.forEach((msg) => {
+        messages.push({
+          role: msg.type === 'user' ? 'user' : 'assistant',
+          content: msg.content,
+        });
       });
     }
 
@@ -139,22 +1231,35 @@ export class GroqHandler {
     const userMessage = this.buildUserMessage(
       feature,
       query,
-      pageInfo,
-      currentDate
+      pageInfo && {
+        ...pageInfo,
+        selectedText: budget.selectedText,
+        mainText: budget.mainText,
+      },
+      sources?.map((source, index) => ({ ...source, text: budget.pages?.[index] || '' }))
     );
     messages.push({ role: 'user', content: userMessage });
 
-    console.log('💬 Final message structure:', {
+    log.debug('Prompt built', {
       totalMessages: messages.length,
       systemPromptLength: systemPrompt.length,
       userMessageLength: userMessage.length,
-      hasHistory: conversationHistory?.length > 0,
+      historyMessages: budget.history.length,
+      droppedHistoryMessages: conversationHistory.length - budget.history.length,
+      estimatedPromptTokens: budget.report.estimatedPromptTokens,
     });
 
-    return messages;
+    return { messages, context: budget.report };
   }
 
-  private buildSystemPrompt(feature: string, featurePrompt?: string, pageInfo?: any, currentDate?: string) {
+  private buildSystemPrompt(
+    feature: Feature,
+    featurePrompt?: string,
+    pageInfo?: PageInfo,
+    currentDate?: string,
+    systemNote?: string,
+    hasPages = false
+  ) {
     const baseInstructions = [
       'You are a helpful AI assistant that helps with web browsing tasks.',
       `Current date and time: ${currentDate}`,
@@ -164,146 +1269,307 @@ export class GroqHandler {
       'If you need more context, ask clarifying questions.',
     ];
 
-    const featureSpecificInstructions: { [key: string]: string } = {
-      search: 'Provide comprehensive, well-researched answers. Include relevant details and sources when possible.',
-      explain: 'Break down complex concepts into simple, easy-to-understand terms. Use analogies and examples.',
-      summarize: 'Focus on key points and main ideas. Be concise but comprehensive.',
-      extract: 'Organize information in a structured format. Use tables, lists, or bullet points when helpful.',
-      analyze: 'Provide critical analysis with balanced perspectives. Support your analysis with evidence.',
-      reply: 'Craft professional, context-appropriate responses. Match the tone to the situation.',
-      ask: 'Answer questions accurately based on the provided context. Cite specific parts of the content when relevant.',
-      stt: 'Process spoken input naturally and contextually.',
-    };
-
     const instructions = [
       ...baseInstructions,
-      featureSpecificInstructions[feature] || featurePrompt,
-      pageInfo?.title && `Current page: ${pageInfo.title}`,
+      featureRegistry.require(feature).systemInstructions || featurePrompt,
+      pageInfo?.title && `Current page: ${sanitizeTitle(pageInfo.title)}`,
       pageInfo?.contentType && `Content type: ${pageInfo.contentType}`,
+      (pageInfo?.selectedText || pageInfo?.mainText || hasPages) && PAGE_CONTENT_RULE,
+      systemNote,
     ].filter(Boolean);
 
     return instructions.join('\n');
   }
 
-  private buildUserMessage(feature: string, query: string, pageInfo?: any, currentDate?: string) {
+  private buildUserMessage(feature: Feature, query: string, pageInfo?: PageInfo, sources?: PageSource[]) {
     const contextParts = [];
-    
-    console.log('📋 GROQ HANDLER: Building user message with pageInfo:', {
-      hasPageInfo: !!pageInfo,
-      title: pageInfo?.title,
-      hasSelectedText: !!pageInfo?.selectedText,
-      hasMainText: !!pageInfo?.mainText,
-    });
 
     // Page context
     if (pageInfo) {
       contextParts.push(
-        pageInfo.title && `Page Title: ${pageInfo.title}`,
+        pageInfo.title && `Page Title: ${sanitizeTitle(pageInfo.title)}`,
         pageInfo.url && `Page URL: ${pageInfo.url}`,
         pageInfo.contentType && `Content Type: ${pageInfo.contentType}`,
-        pageInfo.wordCount && `Content Length: ${pageInfo.wordCount} words`
+        pageInfo.wordCount && `Content Length: ${pageInfo.wordCount} words`,
+        pageInfo.extraction?.author && `Author: ${sanitizeTitle(pageInfo.extraction.author)}`,
+        pageInfo.extraction?.publishedAt && `Published: ${sanitizeTitle(pageInfo.extraction.publishedAt)}`
       );
     }
 
-    // Selected text (high priority)
+    // Selected text (high priority, already fitted to the context budget), fenced off as data
     if (pageInfo?.selectedText) {
-      const truncatedSelectedText = pageInfo.selectedText.substring(0, 2000);
-      contextParts.push(`SELECTED TEXT:\n"${truncatedSelectedText}"`);
+      contextParts.push(`SELECTED TEXT:\n${wrapUntrusted('selectedText', pageInfo.selectedText)}`);
     }
 
-    // Main content (truncated for token limits)
+    // Main content (already fitted to the context budget), fenced off as data
     if (pageInfo?.mainText) {
-      const truncatedContent = pageInfo.mainText.substring(0, 6000);
-      contextParts.push(`PAGE CONTENT:\n${truncatedContent}`);
+      contextParts.push(`PAGE CONTENT:\n${wrapUntrusted('mainText', pageInfo.mainText)}`);
+    }
+
+    // Pages of a multi-page request, each labelled and fitted to its share of the budget
+    if (sources?.length) {
+      const pages = sources.map((source) =>
+        [
+          `[${source.id}] ${sanitizeTitle(source.title || 'Untitled page')}${source.url ? ` (${source.url})` : ''}`,
+          source.text && wrapUntrusted('mainText', source.text, source.id),
+        ]
+          .filter(Boolean)
+          .join('\n')
+      );
+      contextParts.push(`PAGE CONTENT:\n${pages.join('\n\n')}`);
     }
 
     const context = contextParts.filter(Boolean).join('\n\n');
 
     // Feature-specific task framing
-    const taskFraming: { [key: string]: string } = {
-      search: `Search and provide information about: ${query}`,
-      explain: `Explain: ${query}`,
-      summarize: `Summarize the content${query ? ` focusing on: ${query}` : ''}`,
-      extract: `Extract key information${query ? ` related to: ${query}` : ''}`,
-      analyze: `Analyze: ${query}`,
-      reply: `Compose a reply: ${query}`,
-      ask: `Answer: ${query}`,
-      stt: `Process spoken input: ${query}`,
-    };
-
-    const task = taskFraming[feature] || query;
+    const task = featureRegistry.renderTask(featureRegistry.require(feature), query);
 
     return [context && `CONTEXT:\n${context}`, `TASK: ${task}`]
       .filter(Boolean)
       .join('\n\n');
   }
 
-  private getTemperatureForFeature(feature: string): number {
-    const temperatures: { [key: string]: number } = {
-      search: 0.7,
-      explain: 0.3,
-      summarize: 0.2,
-      extract: 0.1,
-      analyze: 0.5,
-      reply: 0.6,
-      ask: 0.3,
-      stt: 0.4,
-    };
-    return temperatures[feature] || 0.7;
+  private getTemperatureForFeature(feature: Feature): number {
+    return featureRegistry.require(feature).temperature;
   }
 
-  private getMaxTokensForFeature(feature: string): number {
-    const tokenLimits: { [key: string]: number } = {
-      summarize: 1024,
-      extract: 1024,
-      reply: 512,
-      explain: 2048,
-      analyze: 2048,
-      search: 2048,
-      ask: 2048,
-      stt: 1024,
-    };
-    return tokenLimits[feature] || 2048;
+  private getMaxTokensForFeature(feature: Feature): number {
+    return featureRegistry.require(feature).maxTokens;
+  }
+
+  /**
+   * Transcribes a recording. The same audio with the same options is only
+   * sent upstream once while it stays in the response cache.
+   */
+  async transcribeAudio(
+    audioBuffer: Buffer,
+    mimeType: string,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionOutput> {
+    const provider = getProvider(options.provider);
+    const { bypassCache, ...transcriptionOptions } = options;
+    const transcribe = () => this.runTranscription(provider, audioBuffer, mimeType, transcriptionOptions);
+
+    if (!responseCache.isCacheable(options.temperature)) {
+      return { ...(await transcribe()), cache: { status: 'skip' } };
+    }
+
+    const key = hashCacheKey('transcription', provider.name, {
+      ...transcriptionOptions,
+      model: options.model || provider.defaultTranscriptionModel,
+    }, audioBuffer);
+    const { value, cache } = await responseCache.remember(key, transcribe, { bypass: bypassCache });
+
+    log.info('Transcription', { cache: cache.status, bytes: audioBuffer.length });
+    return { ...value, cache };
   }
 
-  async transcribeAudio(audioBuffer: Buffer, mimeType: string, options: TranscriptionOptions = {}) {
+  /**
+   * Transcribes a recording of any format ffmpeg can decode. Audio is
+   * normalized to 16 kHz mono and, if it is still too large for one upload,
+   * transcribed in chunks split at pauses and joined back together. Each
+   * chunk is retried, then sent to `TRANSCRIPTION_FALLBACK_MODELS`, on failure.
+   */
+  private async runTranscription(
+    provider: LLMProvider,
+    audioBuffer: Buffer,
+    mimeType: string,
+    options: Omit<TranscriptionOptions, 'bypassCache'>
+  ): Promise<TranscriptionOutput> {
+    const models = withFallbacks(
+      options.model || provider.defaultTranscriptionModel,
+      getFallbackModelsFromEnv('TRANSCRIPTION_FALLBACK_MODELS')
+    );
+
     try {
-      // Validate audio format
-      if (!AudioUtils.validateAudioFormat(mimeType)) {
-        throw new Error(`Unsupported audio format: ${mimeType}`);
-      }
+      const chunks = await this.prepareAudioChunks(audioBuffer, mimeType);
+      const verbose = options.response_format === 'verbose_json';
+      // Only the verbose format reports the language the model detected
+      const detect = options.language === 'auto';
+      const texts: string[] = [];
+      const segments: TranscriptSegment[] = [];
+      const words: TranscriptWord[] = [];
+      let language: string | undefined;
+      let reportedDuration = 0;
+      let model = models[0];
+      let fallback: FallbackInfo | undefined;
 
-      const tempFilePath = path.join(
-        os.tmpdir(),
-        `audio-${Date.now()}.${this.getFfmpegFormat(mimeType)}`
-      );
-      
-      console.log('Temporary file path for transcription:', tempFilePath);
-      
-      try {
-        fs.writeFileSync(tempFilePath, audioBuffer);
-
-        const transcription = await this.client.audio.transcriptions.create({
-          file: fs.createReadStream(tempFilePath),
-          model: options.model || 'whisper-large-v3-turbo',
-          prompt: options.prompt || '',
-          //@ts-expect-error- typing issues with Groq SDK
-          response_format: options.response_format || 'json',
-          language: options.language || 'en',
-          temperature: options.temperature || 0.0,
-        });
+      for (const chunk of chunks) {
+        const result = await callUpstream(provider.name, models, (model, signal) =>
+          provider.transcribe({
+            audio: chunk.buffer,
+            mimeType: chunk.mimeType,
+            fileExtension: chunk.fileExtension,
+            model,
+            prompt: options.prompt,
+            response_format: detect ? 'verbose_json' : options.response_format,
+            language: detect ? undefined : options.language,
+            temperature: options.temperature,
+            signal,
+          })
+        );
+        const transcription = result.value;
+        model = result.model;
+        fallback ||= result.fallback;
+        texts.push(transcription.text.trim());
+        language = language || transcription.language;
+        reportedDuration += transcription.duration || 0;
 
-        fs.unlinkSync(tempFilePath);
-        return transcription.text;
-      } catch (fileError: any) {
-        if (fs.existsSync(tempFilePath)) {
-          fs.unlinkSync(tempFilePath);
+        if (verbose) {
+          const chunkEnd = Number.isFinite(chunk.end) ? chunk.end : chunk.start + (transcription.duration || 0);
+          const shifted = shiftTranscript(transcription, chunk.start, chunkEnd, segments.length);
+          segments.push(...shifted.segments);
+          words.push(...shifted.words);
         }
-        throw fileError;
       }
-    } catch (error: any) {
-      console.error('Groq transcription error:', error);
-      throw new Error(`Transcription failed: ${error.message}`);
+
+      const lastEnd = chunks[chunks.length - 1]?.end;
+      const text = texts.filter(Boolean).join(' ');
+
+      if (detect) {
+        // Models report a name (`english`); fall back to guessing from the text when they don't
+        language = (language && normalizeLanguage(language)) || detectLanguage(text)?.language || language;
+      }
+
+      return {
+        text,
+        model,
+        fallback,
+        duration: Number.isFinite(lastEnd) ? lastEnd : reportedDuration || undefined,
+        chunks: chunks.length,
+        language,
+        segments: verbose ? segments : undefined,
+        words: verbose && words.length > 0 ? words : undefined,
+      };
+    } catch (error) {
+      log.error('Transcription failed', { provider: provider.name, error });
+      if (error instanceof ApiError) throw error;
+      throw new Error(`Transcription failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async prepareAudioChunks(audioBuffer: Buffer, mimeType: string): Promise<AudioChunk[]> {
+    if (audioProcessor.isAvailable()) {
+      const prepared = await audioProcessor.prepare(audioBuffer);
+      return prepared.chunks;
+    }
+
+    // Without ffmpeg, send the upload as-is, trusting its content over the declared type
+    const format = AudioUtils.detectAudioFormat(audioBuffer) || mimeType.split(';')[0].trim();
+    if (!AudioUtils.validateAudioFormat(format)) {
+      throw new ApiError(
+        ErrorCodes.UNSUPPORTED_AUDIO_FORMAT,
+        `Unsupported audio format: ${mimeType}`,
+        415
+      );
+    }
+
+    return [
+      {
+        buffer: audioBuffer,
+        mimeType: format,
+        fileExtension: this.getFfmpegFormat(format),
+        start: 0,
+        end: NaN,
+      },
+    ];
+  }
+
+  /**
+   * Reads text aloud. Markdown is stripped first, and long text is
+   * synthesized a few sentences at a time, then joined into one file.
+   */
+  async synthesizeSpeech(text: string, options: SpeechOptions) {
+    const { provider, model, voice, chunks } = this.prepareSpeech(text, options);
+    const clips: SpeechResult[] = [];
+
+    for (const chunk of chunks) {
+      clips.push(await this.synthesizeChunk(provider, { text: chunk, model, voice, format: options.format, speed: options.speed }));
+    }
+
+    let audio: Buffer;
+    if (clips.length === 1 && clips[0].format === options.format) {
+      audio = clips[0].audio;
+    } else if (clips.every((clip) => clip.format === 'mp3') && options.format === 'mp3') {
+      // MP3 frames can simply be concatenated
+      audio = Buffer.concat(clips.map((clip) => clip.audio));
+    } else {
+      audio = await audioProcessor.convert(clips.map((clip) => clip.audio), options.format);
+    }
+
+    log.info('Speech synthesized', {
+      provider: provider.name,
+      chunks: chunks.length,
+      characters: chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+      bytes: audio.length,
+    });
+
+    return {
+      audio,
+      format: options.format,
+      mimeType: SPEECH_MIME_TYPES[options.format],
+      chunks: chunks.length,
+      model,
+      voice,
+      provider: provider.name,
+    };
+  }
+
+  /**
+   * Streaming variant of synthesizeSpeech: yields each sentence chunk as soon
+   * as it is synthesized, so playback can start before the rest is ready.
+   */
+  async *synthesizeSpeechStream(text: string, options: SpeechOptions): AsyncGenerator<SpeechEvent> {
+    const { provider, model, voice, chunks } = this.prepareSpeech(text, options);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const clip = await this.synthesizeChunk(provider, { text: chunk, model, voice, format: options.format, speed: options.speed });
+      const audio =
+        clip.format === options.format ? clip.audio : await audioProcessor.convert([clip.audio], options.format);
+
+      yield {
+        type: 'audio',
+        index,
+        total: chunks.length,
+        text: chunk,
+        audio: audio.toString('base64'),
+        mimeType: SPEECH_MIME_TYPES[options.format],
+      };
+    }
+
+    yield { type: 'done', chunks: chunks.length, model, voice, provider: provider.name, format: options.format };
+  }
+
+  private prepareSpeech(text: string, options: SpeechOptions): PreparedSpeech {
+    const provider = getProvider(options.provider);
+    const chunks = splitSpeechChunks(stripMarkdown(text));
+
+    if (chunks.length === 0) {
+      throw new ApiError(ErrorCodes.NOTHING_TO_SPEAK, 'There is no readable text to speak', 422);
+    }
+
+    return {
+      provider,
+      model: options.model || provider.defaultSpeechModel,
+      voice: options.voice || provider.defaultVoice,
+      chunks,
+    };
+  }
+
+  private async synthesizeChunk(
+    provider: LLMProvider,
+    params: SpeechParams
+  ): Promise<SpeechResult> {
+    try {
+      // No fallback voices: a different model would change how the answer sounds
+      const { value } = await callUpstream(provider.name, [params.model], (_model, signal) =>
+        provider.synthesizeSpeech({ ...params, signal })
+      );
+      return value;
+    } catch (error) {
+      log.error('Speech synthesis failed', { provider: provider.name, error });
+      if (error instanceof ApiError) throw error;
+      throw new Error(`Speech synthesis failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -314,9 +1580,10 @@ export class GroqHandler {
       'audio/mp4': 'mp4',
       'audio/ogg': 'ogg',
       'audio/wav': 'wav',
+      'audio/flac': 'flac',
     };
 
-    return formatMap[mimeType] || 'wav';
+    return formatMap[mimeType.split(';')[0]] || 'wav';
   }
 }
 
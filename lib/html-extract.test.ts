@@ -0,0 +1,99 @@
+// lib/html-extract.test.ts
+import { describe, expect, it } from 'vitest';
+import { extractReadableContent } from './html-extract';
+
+const FILLER = 'This paragraph has enough words, and commas, to look like real content. '.repeat(3);
+
+const PAGE = `<!doctype html><html lang="en"><head><title>Release notes | Example Blog</title>
+<meta property="og:site_name" content="Example Blog"><meta name="author" content="Jane Doe">
+<meta property="article:published_time" content="2026-03-14T09:00:00Z">
+<script type="application/ld+json">{"@type": "BlogPosting", "headline": "Release notes"}</script>
+<style>p { color: red }</style></head><body>
+<header><nav><a href="/">Home</a> <a href="/blog">Blog</a> <a href="/about">About</a></nav></header>
+<div id="cookie-banner">We use cookies. <button>Accept</button></div>
+<main><article><h1>Release notes</h1><p>Version 2 is out. ${FILLER}</p>
+<h2>Install</h2><p>Run the installer. ${FILLER}</p><pre><code>npm install example</code></pre>
+<h2>Prices</h2><table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>$10</td></tr></table>
+<ul><li>Fast</li><li>Small &amp; safe</li></ul><p>See <a href="https://example.com/docs">the docs</a>. ${FILLER}</p>
+</article></main><aside class="sidebar"><h3>Related</h3><a href="/x">Other post</a></aside>
+<footer>Copyright 2026 Example</footer></body></html>`;
+
+function timed<T>(run: () => T): { value: T; ms: number } {
+  const started = performance.now();
+  const value = run();
+  return { value, ms: performance.now() - started };
+}
+
+describe('extractReadableContent', () => {
+  it('reads the main content as markdown and drops the page chrome', () => {
+    const { text } = extractReadableContent(PAGE);
+
+    expect(text).toBe(
+      [
+        '# Release notes',
+        `Version 2 is out. ${FILLER.trim()}`,
+        '## Install',
+        `Run the installer. ${FILLER.trim()}`,
+        '```\nnpm install example\n```',
+        '## Prices',
+        '| Plan | Price |\n| --- | --- |\n| Pro | $10 |',
+        '- Fast\n- Small & safe',
+        `See the docs. ${FILLER.trim()}`,
+      ].join('\n\n')
+    );
+  });
+
+  it('reports metadata, the outline and what it kept', () => {
+    const { text, ...report } = extractReadableContent(PAGE, { url: 'https://example.com/blog/release-notes' });
+
+    expect(text).not.toContain('cookies');
+    expect(report).toEqual({
+      title: 'Release notes',
+      author: 'Jane Doe',
+      publishedAt: '2026-03-14T09:00:00.000Z',
+      siteName: 'Example Blog',
+      language: 'en',
+      contentType: 'article',
+      wordCount: 132,
+      outline: [
+        { level: 1, text: 'Release notes' },
+        { level: 2, text: 'Install' },
+        { level: 2, text: 'Prices' },
+      ],
+      tables: 1,
+      codeBlocks: 1,
+      truncated: false,
+    });
+  });
+
+  it('cuts long content at a paragraph break', () => {
+    const { text, truncated } = extractReadableContent(PAGE, { maxLength: 400 });
+
+    expect(truncated).toBe(true);
+    expect(text.endsWith('## Install')).toBe(true);
+  });
+});
+
+describe('extractReadableContent on hostile HTML', () => {
+  it.each([
+    ['unterminated start tags', '<a x'.repeat(16000)],
+    ['empty elements', '<div></div>'.repeat(40000)],
+    ['nested tables', '<table><tr><td>'.repeat(33000)],
+    ['nested tables with text', '<table><tr><td>Cell text, with commas, here. '.repeat(11000)],
+    ['nested divs', `${'<div>'.repeat(400)}x${'</div>'.repeat(400)}`.repeat(110)],
+    ['nested bylines', `${'<div class=byline>'.repeat(400)}${'</div>'.repeat(400)}`.repeat(70)],
+    ['unclosed link blocks', `<div><p>${'<a href=/x>link text</a> '.repeat(3)}</p>`.repeat(5000)],
+  ])('reads about 500 KB of %s in linear time', (_, html) => {
+    const { ms } = timed(() => extractReadableContent(html, { maxLength: 200000 }));
+    expect(ms).toBeLessThan(3000);
+  });
+
+  it('scores deeply nested paragraphs the same as shallow ones', () => {
+    const paragraph = `<p>${'Readable text, with commas, long enough to score. '.repeat(4)}</p>`;
+    const shallow = extractReadableContent(`<body><div>${paragraph.repeat(3)}</div></body>`);
+    const deep = extractReadableContent(`<body>${'<div>'.repeat(300)}${paragraph.repeat(3)}${'</div>'.repeat(300)}</body>`);
+
+    expect(deep.text).toBe(shallow.text);
+    expect(deep.wordCount).toBe(shallow.wordCount);
+  });
+});
@@ -0,0 +1,992 @@
+// lib/html-extract.ts
+
+// A small HTML reader for pages sent as raw `html`. It builds a loose tree
+// (less forgiving than a browser's, but HTML the browser serialized is
+// well-formed), drops navigation and other chrome, picks the main content
+// the way Readability does and renders it as markdown.
+
+interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+/** What was read from the page besides its text, returned to the caller as `extraction` */
+export interface ExtractionReport {
+  title?: string;
+  author?: string;
+  /** As the page gives it, or ISO 8601 when it parses as a date-time */
+  publishedAt?: string;
+  siteName?: string;
+  /** The `lang` of the document */
+  language?: string;
+  contentType: string;
+  wordCount: number;
+  /** The headings of the main content, in order */
+  outline: OutlineHeading[];
+  /** Data tables rendered as markdown tables */
+  tables: number;
+  /** `<pre>` blocks rendered as fenced code blocks */
+  codeBlocks: number;
+  /** The text was cut to fit `maxLength` */
+  truncated: boolean;
+}
+
+export interface PageExtraction extends ExtractionReport {
+  /** The main content as markdown */
+  text: string;
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Their content is not markup; title is the only one whose text is kept
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'title', 'textarea', 'noscript', 'xmp']);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+// Opening the key closes the nearest open element listed, unless one of the scope tags comes first
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ['li'], scope: ['ul', 'ol'] },
+  dt: { closes: ['dt', 'dd'], scope: ['dl'] },
+  dd: { closes: ['dt', 'dd'], scope: ['dl'] },
+  tr: { closes: ['tr'], scope: ['table'] },
+  td: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot'], scope: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot'], scope: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot'], scope: ['table'] },
+  option: { closes: ['option'], scope: ['select'] },
+};
+
+const PARAGRAPH_SCOPE = ['table', 'td', 'th', 'caption', 'button', 'li', 'html', 'body'];
+
+// Deeper markup is flattened into its ancestor, so rendering cannot overflow the stack
+const MAX_DEPTH = 400;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '', ensp: ' ', emsp: ' ', thinsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·', lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“',
+  rdquo: '”', bdquo: '„', laquo: '«', raquo: '»', copy: '©', reg: '®', trade: '™', deg: '°', plusmn: '±',
+  times: '×', divide: '÷', minus: '−', le: '≤', ge: '≥', ne: '≠', asymp: '≈', infin: '∞', micro: 'µ',
+  para: '¶', sect: '§', euro: '€', pound: '£', yen: '¥', cent: '¢', frac12: '½', frac14: '¼', frac34: '¾',
+  sup2: '²', sup3: '³', larr: '←', rarr: '→', uarr: '↑', darr: '↓', harr: '↔', rArr: '⇒', check: '✓',
+  dagger: '†', prime: '′', Prime: '″', zwj: '‍', zwnj: '‌', lrm: '‎', rlm: '‏',
+};
+
+// Recognized without the semicolon too, as browsers do; others need it so `?a=1&times=2` survives
+const LEGACY_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'nbsp']);
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#\d+|#x[\da-f]+|[a-z][a-z\d]*)(;?)/gi, (entity, name: string, semicolon: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    if (!semicolon && !LEGACY_ENTITIES.has(name.toLowerCase())) return entity;
+    return NAMED_ENTITIES[name] ?? NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+const TAG_NAME = /[a-z][\w:-]*/iy;
+const ATTRIBUTE_NAME = /[^\s/>][^\s/>=]*/y;
+const UNQUOTED_VALUE = /[^\s>]*/y;
+const WHITESPACE = /\s*/y;
+
+interface StartTag {
+  tag: string;
+  attrs: Record<string, string>;
+  selfClosing: boolean;
+  /** Just past the tag's `>` */
+  end: number;
+}
+
+function matchAt(pattern: RegExp, html: string, position: number): string {
+  pattern.lastIndex = position;
+  return pattern.exec(html)?.[0] ?? '';
+}
+
+/**
+ * Reads the start tag whose `<` is at `position`. As in a browser, the tag
+ * runs to the first `>` outside a quoted value, and each character is read
+ * once; input that ends inside the tag gives undefined.
+ */
+function readStartTag(html: string, position: number): StartTag | undefined {
+  const tag = matchAt(TAG_NAME, html, position + 1).toLowerCase();
+  const attrs: Record<string, string> = {};
+  let selfClosing = false;
+  let index = position + 1 + tag.length;
+
+  while (index < html.length) {
+    index += matchAt(WHITESPACE, html, index).length;
+    if (html[index] === '>') return { tag, attrs, selfClosing, end: index + 1 };
+    if (html[index] === '/') {
+      selfClosing = true;
+      index++;
+      continue;
+    }
+    if (index >= html.length) break;
+
+    const name = matchAt(ATTRIBUTE_NAME, html, index);
+    index += name.length;
+    selfClosing = false;
+
+    let value = '';
+    const equals = index + matchAt(WHITESPACE, html, index).length;
+    if (html[equals] === '=') {
+      index = equals + 1;
+      index += matchAt(WHITESPACE, html, index).length;
+      const quote = html[index];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, index + 1);
+        if (close < 0) return undefined;
+        value = html.slice(index + 1, close);
+        index = close + 1;
+      } else {
+        value = matchAt(UNQUOTED_VALUE, html, index);
+        index += value.length;
+      }
+    }
+
+    const key = name.toLowerCase();
+    if (!(key in attrs)) attrs[key] = decodeEntities(value);
+  }
+  return undefined;
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#document', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const last = current().children[current().children.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else current().children.push({ type: 'text', text });
+  };
+
+  // Pops up to and including the nearest open `tags`, unless a `scope` tag is reached first
+  const closeNearest = (tags: string[], scope: string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (tags.includes(stack[i].tag)) {
+        stack.length = i;
+        return;
+      }
+      if (scope.includes(stack[i].tag)) return;
+    }
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const next = html.indexOf('<', position);
+    if (next < 0) {
+      appendText(decodeEntities(html.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(position, next)));
+    position = next;
+
+    if (html.startsWith('<!--', position)) {
+      const end = html.indexOf('-->', position + 4);
+      position = end < 0 ? html.length : end + 3;
+      continue;
+    }
+    if (html[position + 1] === '!' || html[position + 1] === '?') {
+      const end = html.indexOf('>', position);
+      position = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    if (html[position + 1] === '/' && /[a-z]/i.test(html[position + 2] || '')) {
+      // An end tag with no `>` after it runs to the end of the input, which browsers drop
+      const end = html.indexOf('>', position);
+      if (end < 0) break;
+      const tag = matchAt(TAG_NAME, html, position + 2).toLowerCase();
+      position = end + 1;
+      if (tag === 'br') {
+        current().children.push({ type: 'element', tag: 'br', attrs: {}, children: [], parent: current() });
+      } else if (stack.some((element) => element.tag === tag)) {
+        closeNearest([tag], []);
+      }
+      continue;
+    }
+
+    if (!/[a-z]/i.test(html[position + 1] || '')) {
+      appendText('<');
+      position++;
+      continue;
+    }
+    // Likewise an unterminated start tag: nothing after it can be read as markup
+    const open = readStartTag(html, position);
+    if (!open) break;
+    position = open.end;
+
+    const { tag } = open;
+    if (CLOSES_PARAGRAPH.has(tag)) closeNearest(['p'], PARAGRAPH_SCOPE);
+    if (IMPLIED_END_TAGS[tag]) closeNearest(IMPLIED_END_TAGS[tag].closes, IMPLIED_END_TAGS[tag].scope);
+
+    const element: HtmlElement = { type: 'element', tag, attrs: open.attrs, children: [], parent: current() };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const closing = new RegExp(`</${tag}`, 'ig');
+      closing.lastIndex = position;
+      const end = closing.exec(html)?.index ?? -1;
+      const content = html.slice(position, end < 0 ? html.length : end);
+      element.children.push({ type: 'text', text: tag === 'title' || tag === 'textarea' ? decodeEntities(content) : content });
+      const closeEnd = end < 0 ? -1 : html.indexOf('>', end);
+      position = closeEnd < 0 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tag) && !open.selfClosing && stack.length < MAX_DEPTH) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/** The element's descendants in document order; a stack rather than recursion, since pages nest deeply */
+function* walk(node: HtmlElement): Generator<HtmlElement> {
+  const stack = [...node.children].reverse();
+  while (stack.length > 0) {
+    const child = stack.pop()!;
+    if (child.type !== 'element') continue;
+    yield child;
+    for (let i = child.children.length - 1; i >= 0; i--) stack.push(child.children[i]);
+  }
+}
+
+function find(node: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement | undefined {
+  for (const element of walk(node)) {
+    if (predicate(element)) return element;
+  }
+  return undefined;
+}
+
+function hasAncestor(element: HtmlElement, tags: string[]): boolean {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (tags.includes(parent.tag)) return true;
+  }
+  return false;
+}
+
+/** Detaches `elements`, filtering each parent's children once however many of them go. */
+function removeAll(elements: HtmlElement[]) {
+  const removed = new Set<HtmlNode>(elements);
+  const parents = new Set(elements.map((element) => element.parent));
+  for (const parent of parents) {
+    if (parent) parent.children = parent.children.filter((child) => !removed.has(child));
+  }
+}
+
+/** Text as the page shows it: `<br>` as a line break, nothing from scripts or styles */
+function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  if (node.tag === 'br') return '\n';
+  if (node.tag === 'script' || node.tag === 'style') return '';
+  return node.children.map(textContent).join('');
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/** What scoring needs to know about an element's text, summed up from its children */
+interface TextStats {
+  /** Length with whitespace runs collapsed to one space, before trimming */
+  length: number;
+  leadingSpace: boolean;
+  trailingSpace: boolean;
+  commas: number;
+  /** Trimmed text length of the links inside */
+  linkLength: number;
+  hasCodeOrTable: boolean;
+  hasImage: boolean;
+}
+
+const NO_TEXT: TextStats = {
+  length: 0,
+  leadingSpace: false,
+  trailingSpace: false,
+  commas: 0,
+  linkLength: 0,
+  hasCodeOrTable: false,
+  hasImage: false,
+};
+
+function textStats(text: string): TextStats {
+  const collapsed = text.replace(/\s+/g, ' ');
+  return {
+    ...NO_TEXT,
+    length: collapsed.length,
+    leadingSpace: collapsed.startsWith(' '),
+    trailingSpace: collapsed.endsWith(' '),
+    commas: collapsed.match(/[,，、]/g)?.length || 0,
+  };
+}
+
+/** Stats of `a` followed by `b`; the space where both meet collapses to one */
+function joinStats(a: TextStats, b: TextStats): TextStats {
+  const text = a.length === 0 ? { ...b } : b.length === 0 ? { ...a } : {
+    ...a,
+    length: a.length + b.length - (a.trailingSpace && b.leadingSpace ? 1 : 0),
+    trailingSpace: b.trailingSpace,
+  };
+  return {
+    ...text,
+    commas: a.commas + b.commas,
+    linkLength: a.linkLength + b.linkLength,
+    hasCodeOrTable: a.hasCodeOrTable || b.hasCodeOrTable,
+    hasImage: a.hasImage || b.hasImage,
+  };
+}
+
+/** `collapse(textContent(element)).length`, from the element's stats */
+function trimmedLength(stats: TextStats): number {
+  if (stats.length === 0 || (stats.length === 1 && stats.leadingSpace)) return 0;
+  return stats.length - (stats.leadingSpace ? 1 : 0) - (stats.trailingSpace ? 1 : 0);
+}
+
+/**
+ * Text stats for every element under `root` (and `root` itself), children
+ * before parents, so each node is read once however deep the page nests.
+ * Elements already in `stats` are not measured again.
+ */
+function measureText(root: HtmlElement, stats = new Map<HtmlElement, TextStats>()): Map<HtmlElement, TextStats> {
+  const stack: Array<{ element: HtmlElement; expanded: boolean }> = [{ element: root, expanded: false }];
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    if (!top.expanded) {
+      top.expanded = true;
+      for (const child of top.element.children) {
+        if (child.type === 'element' && !stats.has(child)) stack.push({ element: child, expanded: false });
+      }
+      continue;
+    }
+    stack.pop();
+
+    const { element } = top;
+    let total = element.tag === 'br' ? textStats('\n') : NO_TEXT;
+    if (element.tag !== 'br' && element.tag !== 'script' && element.tag !== 'style') {
+      for (const child of element.children) {
+        if (child.type === 'text') {
+          total = joinStats(total, textStats(child.text));
+          continue;
+        }
+        const childStats = stats.get(child)!;
+        total = joinStats(total, {
+          ...childStats,
+          linkLength: childStats.linkLength + (child.tag === 'a' ? trimmedLength(childStats) : 0),
+          hasCodeOrTable: childStats.hasCodeOrTable || child.tag === 'pre' || child.tag === 'table',
+          hasImage: childStats.hasImage || child.tag === 'img',
+        });
+      }
+    }
+    stats.set(element, total);
+  }
+  return stats;
+}
+
+// ---------------------------------------------------------------------------
+// Metadata
+
+const META_KEYS = {
+  title: ['og:title', 'twitter:title', 'dc.title'],
+  author: ['author', 'article:author', 'dc.creator', 'parsely-author', 'sailthru.author'],
+  publishedAt: [
+    'article:published_time', 'datepublished', 'date', 'dc.date', 'dc.date.issued', 'pubdate', 'publish-date',
+    'parsely-pub-date', 'sailthru.date', 'og:updated_time', 'article:modified_time',
+  ],
+  siteName: ['og:site_name', 'application-name'],
+  type: ['og:type'],
+};
+
+interface PageMetadata {
+  title?: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  language?: string;
+  /** `og:type` or the JSON-LD `@type` of the page's main item, lower-cased */
+  types: string[];
+}
+
+function readMetaTags(document: HtmlElement): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const element of walk(document)) {
+    if (element.tag !== 'meta') continue;
+    const key = (element.attrs.property || element.attrs.name || element.attrs.itemprop || '').toLowerCase();
+    const content = collapse(element.attrs.content || '');
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+  return meta;
+}
+
+function firstMeta(meta: Map<string, string>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = meta.get(key);
+    // Profile URLs (article:author on some sites) are not names
+    if (value && !/^https?:\/\//.test(value)) return value;
+  }
+  return undefined;
+}
+
+function personName(value: unknown): string | undefined {
+  if (typeof value === 'string') return collapse(value) || undefined;
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object' && 'name' in value) return personName(value.name);
+  return undefined;
+}
+
+function readJsonLd(document: HtmlElement): Array<Record<string, unknown>> {
+  const items: Array<Record<string, unknown>> = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') {
+      const item = value as Record<string, unknown>;
+      items.push(item);
+      if (item['@graph']) collect(item['@graph']);
+    }
+  };
+
+  for (const element of walk(document)) {
+    if (element.tag === 'script' && element.attrs.type?.toLowerCase() === 'application/ld+json') {
+      try {
+        collect(JSON.parse(element.children.map((child) => (child.type === 'text' ? child.text : '')).join('')));
+      } catch {
+        // Broken JSON-LD is common; the meta tags usually say the same
+      }
+    }
+  }
+  return items;
+}
+
+function normalizeDate(value?: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? trimmed : date.toISOString();
+}
+
+const BYLINE = /\b(byline|author|writtenby|p-author)\b/i;
+
+const MAX_BYLINE = 100;
+
+function findByline(document: HtmlElement): string | undefined {
+  let stats: Map<HtmlElement, TextStats> | undefined;
+  for (const element of walk(document)) {
+    const names = `${element.attrs.class || ''} ${element.attrs.id || ''}`;
+    if (element.attrs.rel !== 'author' && element.attrs.itemprop !== 'author' && !BYLINE.test(names)) continue;
+    // Avatars and empty wrappers share the class names; a byline is a short bit of text.
+    // Lengths come from one pass over the page, so nested wrappers aren't each read in full
+    stats ||= measureText(document);
+    const length = trimmedLength(stats.get(element)!);
+    if (length === 0 || length > MAX_BYLINE + 'by '.length) continue;
+    const text = collapse(textContent(element)).replace(/^by\s+/i, '');
+    if (text && text.length <= MAX_BYLINE) return text;
+  }
+  return undefined;
+}
+
+// "Post title | Site name" → "Post title"
+function stripSiteName(title: string, siteName?: string): string {
+  const match = /^(.+)\s+[|–—:·-]\s+(.+)$/.exec(title);
+  return match && siteName && match[2].toLowerCase() === siteName.toLowerCase() ? match[1] : title;
+}
+
+function readMetadata(document: HtmlElement): PageMetadata {
+  const meta = readMetaTags(document);
+  const items = readJsonLd(document);
+  const main = items.find((item) => item.datePublished || item.author || item.headline) || items[0];
+  const titleElement = find(document, (element) => element.tag === 'title');
+  const time = find(document, (element) => element.tag === 'time' && !!element.attrs.datetime);
+  const html = find(document, (element) => element.tag === 'html');
+
+  const ldTypes = [main?.['@type']].flat().filter((type): type is string => typeof type === 'string');
+
+  const siteName = firstMeta(meta, META_KEYS.siteName);
+  const title =
+    firstMeta(meta, META_KEYS.title) ||
+    (typeof main?.headline === 'string' ? collapse(main.headline) : undefined) ||
+    (titleElement && collapse(textContent(titleElement)));
+
+  return {
+    title: title ? stripSiteName(title, siteName) : undefined,
+    author: personName(main?.author) || firstMeta(meta, META_KEYS.author) || findByline(document),
+    publishedAt: normalizeDate(
+      (typeof main?.datePublished === 'string' ? main.datePublished : undefined) ||
+        firstMeta(meta, META_KEYS.publishedAt) ||
+        time?.attrs.datetime
+    ),
+    siteName,
+    language: html?.attrs.lang || undefined,
+    types: [...ldTypes, firstMeta(meta, META_KEYS.type) || ''].filter(Boolean).map((type) => type.toLowerCase()),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cleaning and picking the main content
+
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed', 'video', 'audio',
+  'map', 'form', 'button', 'input', 'select', 'textarea', 'nav', 'aside', 'footer', 'dialog', 'head', 'title',
+  'link', 'meta',
+]);
+
+const DROPPED_ROLES = new Set([
+  'navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'search', 'menu', 'menubar',
+]);
+
+// Class and id words of page chrome (cookie banners, share bars, newsletter boxes, …)
+const UNLIKELY =
+  /-ad-|\bads?\b|advert|banner|breadcrumb|combx|comment|community|consent|cookie|cta|disqus|gdpr|masthead|menu|modal|newsletter|overlay|pagination|pager|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skip|social|sponsor|subscribe|toolbar|tracking|widget/i;
+const MAYBE_CONTENT = /and|article|body|column|content|main|post|story|entry/i;
+
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|docs?|markdown/i;
+const NEGATIVE =
+  /hidden|banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'details', 'div', 'dl', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+const MIN_PARAGRAPH_CHARS = 25;
+const MIN_CONTENT_CHARS = 250;
+
+function isHidden(element: HtmlElement): boolean {
+  const style = element.attrs.style?.replace(/\s/g, '').toLowerCase() || '';
+  return (
+    'hidden' in element.attrs ||
+    element.attrs['aria-hidden'] === 'true' ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden')
+  );
+}
+
+function isChrome(element: HtmlElement): boolean {
+  if (element.tag === 'body' || element.tag === 'html' || element.tag === 'article' || element.tag === 'main') {
+    return false;
+  }
+  if (DROPPED_TAGS.has(element.tag) || DROPPED_ROLES.has(element.attrs.role || '') || isHidden(element)) {
+    return true;
+  }
+  // The page header is chrome; an article's own header holds its title and byline
+  if (element.tag === 'header' && !hasAncestor(element, ['article', 'main'])) {
+    return true;
+  }
+  // Code and tables are content whatever their wrapper is called
+  if (element.tag === 'pre' || element.tag === 'code' || element.tag === 'table') {
+    return false;
+  }
+  const names = `${element.attrs.class || ''} ${element.attrs.id || ''}`;
+  return UNLIKELY.test(names) && !MAYBE_CONTENT.test(names);
+}
+
+function removeChrome(document: HtmlElement) {
+  removeAll([...walk(document)].filter(isChrome));
+}
+
+class ContentScorer {
+  private stats: Map<HtmlElement, TextStats>;
+  readonly scores = new Map<HtmlElement, number>();
+
+  constructor(root: HtmlElement) {
+    this.stats = measureText(root);
+  }
+
+  /** Stats for `element`; elements made after scoring started (see pickContent) are measured on first use */
+  private statsOf(element: HtmlElement): TextStats {
+    return this.stats.get(element) ?? measureText(element, this.stats).get(element)!;
+  }
+
+  textLength(element: HtmlElement): number {
+    return trimmedLength(this.statsOf(element));
+  }
+
+  linkDensity(element: HtmlElement): number {
+    const text = this.textLength(element);
+    return text > 0 ? Math.min(this.statsOf(element).linkLength / text, 1) : 0;
+  }
+
+  /** Whether a `pre` or `table` is inside `element` */
+  hasCodeOrTable(element: HtmlElement): boolean {
+    return this.statsOf(element).hasCodeOrTable;
+  }
+
+  /** Whether an `img` is inside `element` */
+  hasImage(element: HtmlElement): boolean {
+    return this.statsOf(element).hasImage;
+  }
+
+  private initialScore(element: HtmlElement): number {
+    const names = `${element.attrs.class || ''} ${element.attrs.id || ''}`;
+    const tagScore =
+      element.tag === 'div' || element.tag === 'article' || element.tag === 'section' ? 5
+        : ['pre', 'td', 'blockquote'].includes(element.tag) ? 3
+        : ['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(element.tag) ? -3
+        : /^h[1-6]$|^th$/.test(element.tag) ? -5
+        : 0;
+    return tagScore + (POSITIVE.test(names) ? 25 : 0) - (NEGATIVE.test(names) ? 25 : 0);
+  }
+
+  private addScore(element: HtmlElement, score: number) {
+    this.scores.set(element, (this.scores.get(element) ?? this.initialScore(element)) + score);
+  }
+
+  /** Scores the ancestors of each paragraph by its length and commas, as Readability does. */
+  score(root: HtmlElement) {
+    for (const element of walk(root)) {
+      const isParagraph =
+        element.tag === 'p' || element.tag === 'pre' || element.tag === 'td' ||
+        (element.tag === 'div' && !element.children.some((child) => child.type === 'element' && BLOCK_TAGS.has(child.tag)));
+      const length = isParagraph ? this.textLength(element) : 0;
+      if (length < MIN_PARAGRAPH_CHARS) continue;
+
+      const score = 1 + this.statsOf(element).commas + Math.min(Math.floor(length / 100), 3);
+      let ancestor = element.parent;
+      for (let level = 0; ancestor && ancestor.tag !== '#document' && level < 3; level++, ancestor = ancestor.parent) {
+        this.addScore(ancestor, level === 0 ? score : score / (level * 2));
+      }
+    }
+  }
+
+  finalScore(element: HtmlElement): number {
+    return (this.scores.get(element) ?? 0) * (1 - this.linkDensity(element));
+  }
+}
+
+/** The article, or the best-scoring block with the sibling blocks that belong with it. */
+function pickContent(body: HtmlElement, scorer: ContentScorer): HtmlElement {
+  const semantic = [
+    (element: HtmlElement) => element.attrs.itemprop === 'articleBody',
+    (element: HtmlElement) => element.tag === 'article',
+    (element: HtmlElement) => element.tag === 'main' || element.attrs.role === 'main',
+  ];
+  for (const matches of semantic) {
+    const best = [...walk(body)]
+      .filter(matches)
+      .sort((a, b) => scorer.textLength(b) - scorer.textLength(a))[0];
+    if (best && scorer.textLength(best) >= MIN_CONTENT_CHARS) return best;
+  }
+
+  scorer.score(body);
+  let top: HtmlElement | undefined;
+  for (const element of scorer.scores.keys()) {
+    if (!top || scorer.finalScore(element) > scorer.finalScore(top)) top = element;
+  }
+  if (!top || !top.parent || top.tag === 'body') return body;
+
+  const threshold = Math.max(10, scorer.finalScore(top) * 0.2);
+  const siblings = top.parent.children.filter((sibling) => {
+    if (sibling === top) return true;
+    if (sibling.type !== 'element') return false;
+    if (scorer.scores.has(sibling) && scorer.finalScore(sibling) >= threshold) return true;
+    if (sibling.tag !== 'p') return false;
+    const length = scorer.textLength(sibling);
+    const density = scorer.linkDensity(sibling);
+    return (length > 80 && density < 0.25) || (density === 0 && /[.!?]$/.test(collapse(textContent(sibling))));
+  });
+
+  if (siblings.length === 1) return top;
+
+  const container: HtmlElement = { type: 'element', tag: 'div', attrs: {}, children: siblings, parent: top.parent };
+  siblings.forEach((sibling) => {
+    if (sibling.type === 'element') sibling.parent = container;
+  });
+  return container;
+}
+
+/** Drops link lists and other leftovers inside the content that read like navigation. */
+function removeLinkBlocks(content: HtmlElement, scorer: ContentScorer) {
+  const leftovers: HtmlElement[] = [];
+  for (const element of walk(content)) {
+    if (!['div', 'section', 'ul', 'ol', 'p'].includes(element.tag)) continue;
+    if (scorer.hasCodeOrTable(element)) continue;
+    const length = scorer.textLength(element);
+    if (length === 0 && !scorer.hasImage(element)) leftovers.push(element);
+    else if (length < 200 && scorer.linkDensity(element) > 0.5) leftovers.push(element);
+  }
+  removeAll(leftovers);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+interface RenderStats {
+  outline: OutlineHeading[];
+  tables: number;
+  codeBlocks: number;
+}
+
+/** Collects inline text into paragraphs, so block elements only need to flush. */
+class MarkdownWriter {
+  private blocks: string[] = [];
+  private inline = '';
+
+  text(text: string) {
+    this.inline += text;
+  }
+
+  block(text?: string) {
+    const paragraph = this.inline.replace(/[^\S\n]+/g, ' ').replace(/ ?\n ?/g, '\n').replace(/\n{2,}/g, '\n').trim();
+    if (paragraph) this.blocks.push(paragraph);
+    this.inline = '';
+    if (text) this.blocks.push(text);
+  }
+
+  result(): string[] {
+    this.block();
+    return this.blocks;
+  }
+}
+
+const CODE_LANGUAGE = /(?:^|\s)(?:language|lang|highlight-source|brush:?)-?\s*([\w+#.-]+)/i;
+
+function codeLanguage(pre: HtmlElement): string {
+  const code = pre.children.find((child): child is HtmlElement => child.type === 'element' && child.tag === 'code');
+  for (const element of [pre, code]) {
+    const language = element?.attrs['data-lang'] || element?.attrs['data-language'] || element?.attrs.class?.match(CODE_LANGUAGE)?.[1];
+    if (language) return language.toLowerCase();
+  }
+  return '';
+}
+
+function renderCode(pre: HtmlElement): string {
+  // A newline right after <pre> is not part of the content
+  const code = textContent(pre).replace(/^\r?\n/, '').replace(/\s+$/, '');
+  const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${codeLanguage(pre)}\n${code}\n${fence}`;
+}
+
+function tableRows(table: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of table.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === 'tr') rows.push(child);
+    else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+      rows.push(...child.children.filter((row): row is HtmlElement => row.type === 'element' && row.tag === 'tr'));
+    }
+  }
+  return rows;
+}
+
+function tableCells(row: HtmlElement): string[] {
+  const cells: string[] = [];
+  for (const cell of row.children) {
+    if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) continue;
+    const text = collapse(textContent(cell)).replace(/\|/g, '\\|');
+    const span = Math.min(Math.max(parseInt(cell.attrs.colspan || '1', 10) || 1, 1), 20);
+    cells.push(text, ...Array<string>(span - 1).fill(''));
+  }
+  return cells;
+}
+
+/** A table used for data, as opposed to one laying out the page. */
+function isDataTable(table: HtmlElement, rows: HtmlElement[]): boolean {
+  if (table.attrs.role === 'presentation' || find(table, (child) => child.tag === 'table')) return false;
+  const columns = Math.max(0, ...rows.map((row) => tableCells(row).length));
+  return rows.length >= 2 && columns >= 2;
+}
+
+function renderTable(table: HtmlElement, rows: HtmlElement[]): string {
+  const cells = rows.map(tableCells);
+  const columns = Math.max(...cells.map((row) => row.length));
+  const line = (row: string[]) => `| ${[...row, ...Array<string>(columns - row.length).fill('')].join(' | ')} |`;
+  const caption = table.children.find((child): child is HtmlElement => child.type === 'element' && child.tag === 'caption');
+
+  const markdown = [line(cells[0]), `|${' --- |'.repeat(columns)}`, ...cells.slice(1).map(line)].join('\n');
+  return caption ? `${collapse(textContent(caption))}\n\n${markdown}` : markdown;
+}
+
+function renderList(list: HtmlElement, stats: RenderStats): string {
+  const start = parseInt(list.attrs.start || '1', 10) || 1;
+  const items = list.children.filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li');
+
+  return items
+    .map((item) => renderBlocks(item.children, stats).join('\n'))
+    .filter(Boolean)
+    .map((body, index) => {
+      const marker = list.tag === 'ol' ? `${start + index}.` : '-';
+      return `${marker} ${body.replace(/\n/g, `\n${' '.repeat(marker.length + 1)}`)}`;
+    })
+    .join('\n');
+}
+
+function renderNode(node: HtmlNode, writer: MarkdownWriter, stats: RenderStats) {
+  if (node.type === 'text') {
+    writer.text(node.text.replace(/\s+/g, ' '));
+    return;
+  }
+
+  const heading = /^h([1-6])$/.exec(node.tag);
+  if (heading) {
+    // Permalink anchors often add a trailing # or ¶
+    const text = collapse(textContent(node)).replace(/\s*[#¶§]$/, '');
+    if (text) {
+      stats.outline.push({ level: Number(heading[1]), text });
+      writer.block(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    }
+    return;
+  }
+
+  switch (node.tag) {
+    case 'br':
+      writer.text('\n');
+      return;
+    case 'hr':
+      writer.block('---');
+      return;
+    case 'img':
+      return;
+    case 'pre':
+      stats.codeBlocks++;
+      writer.block(renderCode(node));
+      return;
+    case 'code': {
+      const code = collapse(textContent(node));
+      if (code) writer.text(code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``);
+      return;
+    }
+    case 'ul':
+    case 'ol':
+      writer.block(renderList(node, stats));
+      return;
+    case 'blockquote': {
+      const quote = renderBlocks(node.children, stats).join('\n\n');
+      writer.block(quote && quote.replace(/^/gm, '> '));
+      return;
+    }
+    case 'table': {
+      const rows = tableRows(node);
+      if (isDataTable(node, rows)) {
+        stats.tables++;
+        writer.block(renderTable(node, rows));
+        return;
+      }
+      break;
+    }
+    case 'dt':
+      writer.block();
+      writer.text(`**${collapse(textContent(node))}**`);
+      writer.block();
+      return;
+    case 'dd':
+      writer.block();
+      writer.text(': ');
+      node.children.forEach((child) => renderNode(child, writer, stats));
+      writer.block();
+      return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(node.tag) || ['td', 'th', 'tr', 'caption', 'figcaption', 'summary', 'body'].includes(node.tag);
+  if (isBlock) writer.block();
+  node.children.forEach((child) => renderNode(child, writer, stats));
+  if (isBlock) writer.block();
+}
+
+function renderBlocks(nodes: HtmlNode[], stats: RenderStats): string[] {
+  const writer = new MarkdownWriter();
+  nodes.forEach((node) => renderNode(node, writer, stats));
+  return writer.result();
+}
+
+// ---------------------------------------------------------------------------
+
+const DOCS_PATH = /\/(docs?|documentation|api|reference|guides?|manual|tutorials?|learn)(\/|$)/i;
+const ARTICLE_TYPES = /article|blogposting|report|newsarticle|posting/;
+
+function inferContentType(metadata: PageMetadata, stats: RenderStats, text: string, url?: string): string {
+  const codeWords = [...text.matchAll(/^(`{3,})[^\n]*\n([\s\S]*?)\n\1$/gm)].reduce(
+    (sum, match) => sum + countWords(match[2]),
+    0
+  );
+  const words = countWords(text);
+
+  if (words > 0 && codeWords / words > 0.5) return 'code';
+  if (metadata.types.some((type) => type.includes('product'))) return 'product';
+  if (metadata.types.some((type) => type.includes('qapage') || type.includes('discussion'))) return 'discussion';
+  if (metadata.types.some((type) => ARTICLE_TYPES.test(type))) return 'article';
+  if (stats.codeBlocks > 0 && (stats.outline.length >= 3 || DOCS_PATH.test(url || ''))) return 'documentation';
+  if (metadata.publishedAt || metadata.author) return 'article';
+  return 'webpage';
+}
+
+function cutText(text: string, maxLength: number): string {
+  const cut = text.slice(0, maxLength);
+  const boundary = cut.lastIndexOf('\n\n');
+  return (boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).trimEnd();
+}
+
+const MAX_OUTLINE = 100;
+
+/**
+ * Reads the main content of a page's HTML as markdown: headings, lists,
+ * tables and fenced code blocks are kept; navigation, headers, footers,
+ * sidebars, cookie banners and forms are dropped. Also returns the title,
+ * author and publication date it finds in meta tags, JSON-LD or the byline,
+ * an outline of the headings and a guess at the content type.
+ */
+export function extractReadableContent(html: string, options: { url?: string; maxLength?: number } = {}): PageExtraction {
+  const document = parseHtml(html);
+  const metadata = readMetadata(document);
+
+  removeChrome(document);
+  const body = find(document, (element) => element.tag === 'body') || document;
+  const scorer = new ContentScorer(body);
+  const content = pickContent(body, scorer);
+  removeLinkBlocks(content, scorer);
+
+  const stats: RenderStats = { outline: [], tables: 0, codeBlocks: 0 };
+  const markdown = renderBlocks([content], stats).join('\n\n');
+  const truncated = options.maxLength !== undefined && markdown.length > options.maxLength;
+  const text = truncated ? cutText(markdown, options.maxLength!) : markdown;
+
+  const firstHeading = stats.outline.find((heading) => heading.level === 1)?.text;
+  return {
+    text,
+    title: metadata.title || firstHeading,
+    author: metadata.author,
+    publishedAt: metadata.publishedAt,
+    siteName: metadata.siteName,
+    language: metadata.language,
+    contentType: inferContentType(metadata, stats, text, options.url),
+    wordCount: countWords(text),
+    outline: stats.outline.slice(0, MAX_OUTLINE),
+    tables: stats.tables,
+    codeBlocks: stats.codeBlocks,
+    truncated,
+  };
+}
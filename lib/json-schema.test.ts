@@ -0,0 +1,79 @@
+// lib/json-schema.test.ts
+import { describe, expect, it } from 'vitest';
+import { checkSchemaDefinition, validateAgainstSchema, type JsonSchema } from './json-schema';
+
+const CONTACTS: JsonSchema = {
+  type: 'object',
+  required: ['contacts'],
+  additionalProperties: false,
+  properties: {
+    contacts: {
+      type: 'array',
+      maxItems: 2,
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          age: { type: ['integer', 'null'], minimum: 0 },
+          role: { enum: ['owner', 'member'] },
+        },
+      },
+    },
+  },
+};
+
+describe('checkSchemaDefinition', () => {
+  it('accepts a usable schema', () => {
+    expect(checkSchemaDefinition(CONTACTS)).toEqual([]);
+  });
+
+  it('reports problems with dotted paths', () => {
+    expect(
+      checkSchemaDefinition({
+        type: 'record',
+        required: 'name',
+        properties: { tags: { type: 'array', items: 'string' }, kind: { enum: [] } },
+      })
+    ).toEqual([
+      { path: 'schema.type', message: 'must be one of: object, array, string, number, integer, boolean, null' },
+      { path: 'schema.properties.tags.items', message: 'must be an object' },
+      { path: 'schema.properties.kind.enum', message: 'must be a non-empty array' },
+      { path: 'schema.required', message: 'must be an array of property names' },
+    ]);
+  });
+
+  it('rejects schemas nested too deeply', () => {
+    let schema: JsonSchema = { type: 'string' };
+    for (let i = 0; i < 12; i++) schema = { type: 'array', items: schema };
+
+    expect(checkSchemaDefinition(schema)).toEqual([
+      { path: `schema${'.items'.repeat(11)}`, message: 'is nested more than 10 levels deep' },
+    ]);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateAgainstSchema({ contacts: [{ name: 'Ada', age: 36, role: 'owner' }, { name: 'Bo', age: null }] }, CONTACTS)).toEqual([]);
+  });
+
+  it('collects every violation with a pointer to it', () => {
+    const value = { contacts: [{ age: 1.5, role: 'guest' }, { name: '' }, { name: 'Cy', age: -1 }], extra: true };
+
+    expect(validateAgainstSchema(value, CONTACTS)).toEqual([
+      { path: '/contacts', message: 'must have at most 2 items' },
+      { path: '/contacts/0/name', message: 'is required' },
+      { path: '/contacts/0/age', message: 'expected integer or null, got number' },
+      { path: '/contacts/0/role', message: 'must be one of: "owner", "member"' },
+      { path: '/contacts/1/name', message: 'must be at least 1 characters' },
+      { path: '/contacts/2/age', message: 'must be >= 0' },
+      { path: '/extra', message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('counts integers as numbers but not the other way round', () => {
+    expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateAgainstSchema(3.5, { type: 'integer' })).toEqual([{ path: '/', message: 'expected integer, got number' }]);
+  });
+});
@@ -0,0 +1,152 @@
+// lib/json-schema.ts
+
+/**
+ * The subset of JSON Schema used for structured output: `type` (or a list
+ * of types), `properties`, `required`, `additionalProperties`, `items`,
+ * `enum`, `description`, and the length/size/range keywords. Other keywords
+ * are passed to the model as hints but not enforced.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaViolation {
+  /** `/contacts/2/email` into a value, or `schema.properties.email` into a schema */
+  path: string;
+  message: string;
+}
+
+const TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+const MAX_DEPTH = 10;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Checks that a caller-supplied schema is something we can enforce. Returns
+ * a list of problems with dotted paths (`schema.properties.email.type`); an
+ * empty list means the schema is usable.
+ */
+export function checkSchemaDefinition(schema: unknown, path = 'schema', depth = 0): SchemaViolation[] {
+  if (!isPlainObject(schema)) {
+    return [{ path, message: 'must be an object' }];
+  }
+  if (depth > MAX_DEPTH) {
+    return [{ path, message: `is nested more than ${MAX_DEPTH} levels deep` }];
+  }
+
+  const problems: SchemaViolation[] = [];
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.some((type) => !TYPES.includes(type as JsonSchemaType))) {
+    problems.push({ path: `${path}.type`, message: `must be one of: ${TYPES.join(', ')}` });
+  }
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      problems.push({ path: `${path}.properties`, message: 'must be an object' });
+    } else {
+      for (const [key, child] of Object.entries(schema.properties)) {
+        problems.push(...checkSchemaDefinition(child, `${path}.properties.${key}`, depth + 1));
+      }
+    }
+  }
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((key) => typeof key !== 'string'))) {
+    problems.push({ path: `${path}.required`, message: 'must be an array of property names' });
+  }
+  if (schema.items !== undefined) {
+    problems.push(...checkSchemaDefinition(schema.items, `${path}.items`, depth + 1));
+  }
+  if (isPlainObject(schema.additionalProperties)) {
+    problems.push(...checkSchemaDefinition(schema.additionalProperties, `${path}.additionalProperties`, depth + 1));
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    problems.push({ path: `${path}.enum`, message: 'must be a non-empty array' });
+  }
+
+  return problems;
+}
+
+/** Validates `value` against `schema`, collecting every violation. */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path: path || '/', message });
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+    return violations;
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+    fail(`must be one of: ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, schema.items as JsonSchema, `${path}/${index}`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        violations.push({ path: `${path}/${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        violations.push(...validateAgainstSchema(child, propertySchema, `${path}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}/${key}`, message: 'is not an allowed property' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        violations.push(...validateAgainstSchema(child, schema.additionalProperties, `${path}/${key}`));
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,181 @@
+// lib/languages.ts
+
+/** ISO 639-1 codes for the languages we can name, detect or ask the model to write in */
+const LANGUAGE_NAMES: Record<string, string> = {
+  ar: 'Arabic',
+  bn: 'Bengali',
+  cs: 'Czech',
+  da: 'Danish',
+  de: 'German',
+  el: 'Greek',
+  en: 'English',
+  es: 'Spanish',
+  fa: 'Persian',
+  fi: 'Finnish',
+  fr: 'French',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  hu: 'Hungarian',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ms: 'Malay',
+  nl: 'Dutch',
+  no: 'Norwegian',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ro: 'Romanian',
+  ru: 'Russian',
+  sv: 'Swedish',
+  sw: 'Swahili',
+  ta: 'Tamil',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  ur: 'Urdu',
+  vi: 'Vietnamese',
+  zh: 'Chinese',
+};
+
+// Names transcription models report that differ from ours
+const NAME_ALIASES: Record<string, string> = {
+  mandarin: 'zh',
+  cantonese: 'zh',
+  farsi: 'fa',
+  nynorsk: 'no',
+  'norwegian bokmål': 'no',
+  castilian: 'es',
+  flemish: 'nl',
+};
+
+const CODES_BY_NAME = new Map(
+  [
+    ...Object.entries(LANGUAGE_NAMES).map(([code, name]) => [name.toLowerCase(), code] as const),
+    ...Object.entries(NAME_ALIASES),
+  ]
+);
+
+/**
+ * A language code from a code (`de`), a tag with a region or script (`pt-BR`, `zh-Hant`) or an
+ * English name (`german`, as transcription models report it). The region is
+ * kept; undefined when we don't know the language.
+ */
+export function normalizeLanguage(value: string): string | undefined {
+  const trimmed = value.trim();
+  const byName = CODES_BY_NAME.get(trimmed.toLowerCase());
+  if (byName) return byName;
+
+  const [base, region] = trimmed.replace('_', '-').split('-');
+  const code = base.toLowerCase();
+  if (!LANGUAGE_NAMES[code] || (region !== undefined && !/^(?:[A-Za-z]{2}|[A-Za-z]{4}|\d{3})$/.test(region))) {
+    return undefined;
+  }
+  if (!region) return code;
+  // `pt-BR`, but `zh-Hant` for a script
+  const subtag = region.length === 4 ? region[0].toUpperCase() + region.slice(1).toLowerCase() : region.toUpperCase();
+  return `${code}-${subtag}`;
+}
+
+/** `German`, or `Portuguese (BR)` for a tag with a region. */
+export function getLanguageName(code: string): string {
+  const [base, region] = code.split('-');
+  const name = LANGUAGE_NAMES[base] || code;
+  return region ? `${name} (${region})` : name;
+}
+
+// Scripts that, on their own, narrow the text down to one language or a few.
+// `share` is the part of the letters they must make up; kana mixes with kanji.
+const SCRIPTS: Array<{ regex: RegExp; language: (text: string) => string; share?: number }> = [
+  { regex: /[가-힯]/g, language: () => 'ko' },
+  { regex: /[぀-ヿ]/g, language: () => 'ja', share: 0.05 },
+  { regex: /[一-鿿]/g, language: () => 'zh' },
+  { regex: /[Ѐ-ӿ]/g, language: (text) => (/[іїєґ]/i.test(text) ? 'uk' : 'ru') },
+  { regex: /[Ͱ-Ͽ]/g, language: () => 'el' },
+  {
+    regex: /[؀-ۿ]/g,
+    language: (text) => (/[ٹڈڑںے]/.test(text) ? 'ur' : /[پچژگ]/.test(text) ? 'fa' : 'ar'),
+  },
+  { regex: /[֐-׿]/g, language: () => 'he' },
+  { regex: /[ऀ-ॿ]/g, language: () => 'hi' },
+  { regex: /[ঀ-৿]/g, language: () => 'bn' },
+  { regex: /[஀-௿]/g, language: () => 'ta' },
+  { regex: /[฀-๿]/g, language: () => 'th' },
+];
+
+// The most frequent short words of each language written in Latin script
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with', 'was', 'on', 'are', 'this', 'be', 'you', 'have', 'not'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'se', 'del', 'las', 'por', 'un', 'una', 'para', 'con', 'no', 'es', 'su'],
+  fr: ['le', 'la', 'de', 'et', 'les', 'des', 'est', 'un', 'une', 'du', 'que', 'en', 'pour', 'pas', 'qui', 'dans', 'sur', 'avec'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'zu', 'den', 'mit', 'sich', 'des', 'auf', 'ein', 'eine', 'dem', 'für', 'auch', 'ich'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'non', 'del', 'della', 'sono', 'gli', 'le', 'con', 'una', 'è', 'nel', 'anche'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'não', 'com', 'uma', 'os', 'no', 'na', 'se', 'mais'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'zijn', 'niet', 'met', 'voor', 'die', 'ook', 'maar', 'er', 'wordt'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'på', 'är', 'av', 'för', 'med', 'till', 'den', 'har', 'inte', 'om', 'ett', 'var', 'jag'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'jest', 'do', 'to', 'że', 'jak', 'ale', 'o', 'co', 'od', 'po', 'tak', 'przez'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'olarak', 'daha', 'gibi', 'ama', 'en', 'ne', 'olan', 'kadar', 'sonra', 'değil'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'dari', 'tidak', 'dalam', 'akan', 'pada', 'juga', 'ke', 'ada', 'adalah', 'bisa', 'oleh'],
+  ro: ['și', 'în', 'de', 'la', 'cu', 'nu', 'că', 'pe', 'este', 'din', 'o', 'un', 'mai', 'pentru', 'care', 'sunt', 'ca', 'sau'],
+  cs: ['a', 'je', 'v', 'se', 'na', 'že', 'to', 's', 'z', 'do', 'jsou', 'ale', 'jako', 'pro', 'by', 'tak', 'o', 'také'],
+  vi: ['và', 'của', 'là', 'có', 'không', 'những', 'được', 'cho', 'một', 'các', 'người', 'này', 'với', 'trong', 'đã', 'để', 'khi', 'về'],
+  fi: ['ja', 'on', 'ei', 'että', 'se', 'oli', 'hän', 'mutta', 'kun', 'niin', 'myös', 'ovat', 'tai', 'joka', 'kuin', 'sen', 'jos', 'vain'],
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([language, words]) => ({ language, words: new Set(words) }));
+
+// Enough of the text to decide on; the rest only costs time
+const SAMPLE_CHARS = 5000;
+const MIN_WORDS = 3;
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code */
+  language: string;
+  /** 0–1: how clearly the text pointed to this language over the next best */
+  confidence: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Guesses the language of `text` from its script, or for Latin-script text
+ * from how often each language's commonest words appear. Undefined for text
+ * too short or too unlike any language we know.
+ */
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  const sample = text
+    .slice(0, SAMPLE_CHARS)
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ');
+  const letters = sample.match(/\p{L}/gu)?.length || 0;
+  if (letters === 0) return undefined;
+
+  for (const script of SCRIPTS) {
+    const count = sample.match(script.regex)?.length || 0;
+    const share = script.share ?? 0.3;
+    if (count / letters > share) {
+      return { language: script.language(sample), confidence: round(Math.min(1, count / letters / share)) };
+    }
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS) return undefined;
+
+  const scores = STOPWORD_SETS.map(({ language, words: stopwords }) => ({
+    language,
+    hits: words.filter((word) => stopwords.has(word)).length,
+  })).sort((a, b) => b.hits - a.hits);
+
+  const [best, next] = scores;
+  if (best.hits === 0) return undefined;
+
+  return { language: best.language, confidence: round(1 - (next?.hits || 0) / best.hits) };
+}
+
+/** System prompt rule for a request's `responseLanguage`. */
+export function buildLanguageNote(language: string): string {
+  return `LANGUAGE: Write your whole answer in ${getLanguageName(language)}, whatever language the page, the history or the question is in. Keep code, URLs, placeholders, quotes copied from the page and JSON property names unchanged.`;
+}
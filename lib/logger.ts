@@ -0,0 +1,189 @@
+// lib/logger.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { ApiError, getErrorStatus } from './errors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// What users typed, selected or were shown: logged as a length unless LOG_CONTENT is on
+const CONTENT_FIELDS = new Set([
+  'query',
+  'selectedText',
+  'mainText',
+  'html',
+  'title',
+  'author',
+  'text',
+  'content',
+  'transcription',
+  'response',
+  'prompt',
+  'featurePrompt',
+  'conversationHistory',
+  'history',
+  'messages',
+  'claims',
+  'data',
+  'csv',
+  'audio',
+]);
+
+// Never logged, whatever LOG_CONTENT says
+const SECRET_FIELDS = /^(authorization|x-api-key|api[-_]?key|key|token|secret|password|credential)$/i;
+
+export type LogFields = Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+  route?: string;
+  clientId?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** Runs `fn` with a request context that every log line inside it carries. */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+function getMinLevel(): number {
+  const configured = (process.env.LOG_LEVEL || '').toLowerCase() as LogLevel;
+  return LEVELS[configured] ?? LEVELS.info;
+}
+
+function logsContent(): boolean {
+  return process.env.LOG_CONTENT === 'true' || process.env.LOG_CONTENT === '1';
+}
+
+function describeRedacted(value: unknown): string {
+  if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+  if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+  if (Buffer.isBuffer(value)) return `[redacted ${value.length} bytes]`;
+  return '[redacted]';
+}
+
+// Query strings and fragments often carry tokens or search terms
+function stripUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return value.split(/[?#]/)[0];
+  }
+}
+
+function serializeError(error: Error): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error instanceof ApiError
+      ? { code: error.code, status: error.status }
+      : { stack: error.stack?.split('\n').slice(0, 6).join('\n') }),
+  };
+}
+
+/**
+ * Copies `value` for logging with page content, queries and other user text
+ * replaced by their length (unless `LOG_CONTENT=true`), secrets always
+ * replaced, URLs cut to origin and path, and errors made serializable.
+ */
+export function redact(value: unknown, key = '', depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (SECRET_FIELDS.test(key)) return '[secret]';
+  // Counts such as `claims: 3` say nothing about the content
+  if (CONTENT_FIELDS.has(key) && (typeof value === 'string' || typeof value === 'object') && !logsContent()) {
+    return describeRedacted(value);
+  }
+  if (value instanceof Error) return serializeError(value);
+  if (typeof value === 'string') return key === 'url' && !logsContent() ? stripUrl(value) : value;
+  if (typeof value !== 'object') return value;
+  if (Buffer.isBuffer(value)) return `[${value.length} bytes]`;
+  if (depth >= 6) return '[nested]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, '', depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as LogFields).map(([name, field]) => [name, redact(field, name, depth + 1)])
+  );
+}
+
+function write(level: LogLevel, line: LogFields) {
+  const output =
+    process.env.LOG_FORMAT === 'pretty'
+      ? formatPretty(level, line)
+      : JSON.stringify(line);
+
+  if (level === 'error') console.error(output);
+  else if (level === 'warn') console.warn(output);
+  else console.log(output);
+}
+
+function formatPretty(level: LogLevel, { time, scope, msg, requestId, ...fields }: LogFields): string {
+  const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  const id = typeof requestId === 'string' ? ` ${requestId.slice(0, 8)}` : '';
+  return `${String(time).slice(11, 23)} ${level.toUpperCase().padEnd(5)} [${scope}]${id} ${msg}${extra}`;
+}
+
+export class Logger {
+  constructor(
+    private readonly scope: string,
+    private readonly bound: LogFields = {}
+  ) {}
+
+  /** A logger that adds `fields` to every line. */
+  child(fields: LogFields): Logger {
+    return new Logger(this.scope, { ...this.bound, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.log('error', msg, fields);
+  }
+
+  /** Logs a failed request: `error` for server faults, `warn` for client mistakes (4xx). */
+  failure(msg: string, error: unknown, fields?: LogFields) {
+    this.log(getErrorStatus(error) >= 500 ? 'error' : 'warn', msg, { ...fields, error });
+  }
+
+  private log(level: LogLevel, msg: string, fields?: LogFields) {
+    if (LEVELS[level] < getMinLevel()) return;
+
+    const context = getRequestContext();
+    write(level, {
+      time: new Date().toISOString(),
+      level,
+      scope: this.scope,
+      msg,
+      requestId: context?.requestId,
+      ...(redact({ ...this.bound, ...fields }) as LogFields),
+    });
+  }
+}
+
+/**
+ * One JSON line per entry, at `LOG_LEVEL` (default `info`) and above.
+ * `LOG_FORMAT=pretty` prints a short human-readable line instead.
+ */
+export function createLogger(scope: string): Logger {
+  return new Logger(scope);
+}
@@ -0,0 +1,57 @@
+// lib/long-document.test.ts
+import { describe, expect, it } from 'vitest';
+import { estimateTokens } from './context-budget';
+import { chunkDocument } from './long-document';
+
+function paragraph(index: number): string {
+  return `Paragraph ${index} explains one more detail of the design, in a sentence or two.`;
+}
+
+const PARAGRAPHS = Array.from({ length: 40 }, (_, index) => paragraph(index));
+const DOCUMENT = PARAGRAPHS.join('\n\n');
+
+describe('chunkDocument', () => {
+  it('keeps a document that fits in one chunk', () => {
+    expect(chunkDocument('First paragraph.\n\n  \n\nSecond paragraph.', { chunkTokens: 100, overlapTokens: 10 })).toEqual([
+      'First paragraph.\n\nSecond paragraph.',
+    ]);
+  });
+
+  it('breaks on paragraphs and keeps every chunk within the limit', () => {
+    const chunks = chunkDocument(DOCUMENT, { chunkTokens: 120, overlapTokens: 1 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(120);
+    }
+    expect(chunks.join('\n\n').split('\n\n')).toEqual(PARAGRAPHS);
+  });
+
+  it('repeats trailing paragraphs of one chunk at the start of the next', () => {
+    const chunks = chunkDocument(DOCUMENT, { chunkTokens: 120, overlapTokens: 30 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].split('\n\n');
+      expect(chunks[i].startsWith(previous[previous.length - 1])).toBe(true);
+    }
+  });
+
+  it('starts a new chunk at a heading once the current one is half full', () => {
+    const text = [paragraph(1), paragraph(2), paragraph(3), paragraph(4), '## Next section', paragraph(5)].join('\n\n');
+    const chunks = chunkDocument(text, { chunkTokens: 120, overlapTokens: 1 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].startsWith('## Next section')).toBe(true);
+  });
+
+  it('splits a paragraph larger than a chunk at sentence ends', () => {
+    const sentences = Array.from({ length: 30 }, (_, index) => `Sentence ${index} of one long paragraph.`);
+    const chunks = chunkDocument(sentences.join(' '), { chunkTokens: 50, overlapTokens: 1 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(50);
+      expect(chunk).toMatch(/^Sentence \d+ .*\.$/);
+    }
+  });
+});
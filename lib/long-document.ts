@@ -0,0 +1,135 @@
+// lib/long-document.ts
+import { estimateTokens } from './context-budget';
+
+const DEFAULT_MAX_CALLS = 6;
+const DEFAULT_CHUNK_TOKENS = 6000;
+const DEFAULT_OVERLAP_TOKENS = 200;
+
+export interface LongDocumentLimits {
+  /** Upper bound on upstream calls per request, map and reduce together */
+  maxCalls: number;
+  chunkTokens: number;
+  overlapTokens: number;
+}
+
+export interface LongDocumentInfo {
+  chunks: number;
+  processedChunks: number;
+  skippedChunks: number;
+  upstreamCalls: number;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+export function getLongDocumentLimits(): LongDocumentLimits {
+  return {
+    maxCalls: Math.max(2, readPositiveInt(process.env.LONG_DOC_MAX_CALLS, DEFAULT_MAX_CALLS)),
+    chunkTokens: readPositiveInt(process.env.LONG_DOC_CHUNK_TOKENS, DEFAULT_CHUNK_TOKENS),
+    overlapTokens: readPositiveInt(process.env.LONG_DOC_OVERLAP_TOKENS, DEFAULT_OVERLAP_TOKENS),
+  };
+}
+
+function isHeading(block: string): boolean {
+  if (/^#{1,6}\s/.test(block)) return true;
+
+  // A short single line without closing punctuation reads like a heading
+  return !block.includes('\n') && block.length <= 80 && !/[.!?:;,]$/.test(block);
+}
+
+/** Breaks text that is too big for one chunk into sentence-sized (or hard-cut) pieces. */
+function splitOversized(block: string, maxTokens: number): string[] {
+  const sentences = block.match(/[^.!?\n]+[.!?]*\s*/g) || [block];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (estimateTokens(sentence) > maxTokens) {
+      if (current) pieces.push(current.trim());
+      current = '';
+      const maxChars = maxTokens * 4;
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars).trim());
+      }
+      continue;
+    }
+
+    if (estimateTokens(current + sentence) > maxTokens) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces.filter(Boolean);
+}
+
+function takeOverlap(blocks: string[], overlapTokens: number): string[] {
+  const overlap: string[] = [];
+  let used = 0;
+
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(blocks[i]);
+    if (used + cost > overlapTokens) break;
+    overlap.unshift(blocks[i]);
+    used += cost;
+  }
+
+  // Never let the overlap be the whole previous chunk
+  return overlap.length === blocks.length ? overlap.slice(1) : overlap;
+}
+
+/**
+ * Splits a document into chunks of at most `chunkTokens`, breaking on
+ * paragraph boundaries and preferring to start a new chunk at a heading.
+ * Consecutive chunks share up to `overlapTokens` of trailing paragraphs.
+ */
+export function chunkDocument(
+  text: string,
+  { chunkTokens, overlapTokens }: Pick<LongDocumentLimits, 'chunkTokens' | 'overlapTokens'>
+): string[] {
+  const blocks = text
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block) =>
+      estimateTokens(block) > chunkTokens ? splitOversized(block, chunkTokens) : [block]
+    );
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let freshBlocks = 0;
+
+  const flush = () => {
+    if (freshBlocks === 0) return;
+    chunks.push(current.join('\n\n'));
+    current = takeOverlap(current, overlapTokens);
+    currentTokens = current.reduce((sum, block) => sum + estimateTokens(block), 0);
+    freshBlocks = 0;
+  };
+
+  for (const block of blocks) {
+    const cost = estimateTokens(block);
+    const full = currentTokens + cost > chunkTokens;
+    const headingBreak = isHeading(block) && currentTokens > chunkTokens * 0.5;
+
+    if (full || headingBreak) {
+      flush();
+      // Drop overlap that would not leave room for the new block
+      while (current.length > 0 && currentTokens + cost > chunkTokens) {
+        currentTokens -= estimateTokens(current.shift()!);
+      }
+    }
+
+    current.push(block);
+    currentTokens += cost;
+    freshBlocks++;
+  }
+
+  flush();
+  return chunks;
+}
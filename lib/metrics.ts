@@ -0,0 +1,155 @@
+// lib/metrics.ts
+import type { TokenUsage } from './providers';
+
+// Latency percentiles come from the most recent samples only
+const MAX_SAMPLES = 500;
+
+class Latency {
+  private count = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+  private samples: number[] = [];
+
+  add(durationMs: number) {
+    this.count += 1;
+    this.totalMs += durationMs;
+    this.maxMs = Math.max(this.maxMs, durationMs);
+    this.samples.push(durationMs);
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  snapshot(): LatencySnapshot {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))] ?? 0;
+
+    return {
+      count: this.count,
+      avgMs: this.count ? Math.round(this.totalMs / this.count) : 0,
+      p50Ms: Math.round(percentile(50)),
+      p95Ms: Math.round(percentile(95)),
+      maxMs: Math.round(this.maxMs),
+    };
+  }
+}
+
+export interface LatencySnapshot {
+  count: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+interface RouteMetrics {
+  requests: number;
+  /** Responses by status code */
+  statuses: Record<string, number>;
+  latency: Latency;
+}
+
+interface FeatureMetrics {
+  requests: number;
+  errors: number;
+  cacheHits: number;
+  fallbacks: number;
+  tokens: { prompt: number; completion: number; total: number };
+  latency: Latency;
+}
+
+interface UpstreamMetrics {
+  calls: number;
+  /** Failed calls by error code */
+  errors: Record<string, number>;
+  latency: Latency;
+}
+
+export interface FeatureOutcome {
+  durationMs: number;
+  usage?: TokenUsage;
+  cacheHit?: boolean;
+  fallback?: boolean;
+  error?: boolean;
+}
+
+function snapshotMap<T, S>(map: Map<string, T>, toSnapshot: (value: T) => S): Record<string, S> {
+  return Object.fromEntries([...map.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, value]) => [key, toSnapshot(value)]));
+}
+
+/**
+ * In-memory counters for `/api/metrics`: requests and latency per route,
+ * requests, tokens and latency per feature, and calls, errors and latency
+ * per upstream model. Each server process counts separately, from start-up.
+ */
+export class Metrics {
+  private startedAt = new Date();
+  private routes = new Map<string, RouteMetrics>();
+  private features = new Map<string, FeatureMetrics>();
+  private upstream = new Map<string, UpstreamMetrics>();
+
+  recordRequest(route: string, status: number, durationMs: number) {
+    let entry = this.routes.get(route);
+    if (!entry) {
+      entry = { requests: 0, statuses: {}, latency: new Latency() };
+      this.routes.set(route, entry);
+    }
+
+    entry.requests += 1;
+    entry.statuses[status] = (entry.statuses[status] || 0) + 1;
+    entry.latency.add(durationMs);
+  }
+
+  recordFeature(feature: string, outcome: FeatureOutcome) {
+    let entry = this.features.get(feature);
+    if (!entry) {
+      entry = {
+        requests: 0,
+        errors: 0,
+        cacheHits: 0,
+        fallbacks: 0,
+        tokens: { prompt: 0, completion: 0, total: 0 },
+        latency: new Latency(),
+      };
+      this.features.set(feature, entry);
+    }
+
+    entry.requests += 1;
+    if (outcome.error) entry.errors += 1;
+    if (outcome.cacheHit) entry.cacheHits += 1;
+    if (outcome.fallback) entry.fallbacks += 1;
+    entry.tokens.prompt += outcome.usage?.prompt_tokens || 0;
+    entry.tokens.completion += outcome.usage?.completion_tokens || 0;
+    entry.tokens.total += outcome.usage?.total_tokens || 0;
+    entry.latency.add(outcome.durationMs);
+  }
+
+  /** One upstream call; `errorCode` is set when it failed. */
+  recordUpstream(provider: string, model: string, durationMs: number, errorCode?: string) {
+    const key = `${provider}/${model}`;
+    let entry = this.upstream.get(key);
+    if (!entry) {
+      entry = { calls: 0, errors: {}, latency: new Latency() };
+      this.upstream.set(key, entry);
+    }
+
+    entry.calls += 1;
+    if (errorCode) entry.errors[errorCode] = (entry.errors[errorCode] || 0) + 1;
+    entry.latency.add(durationMs);
+  }
+
+  snapshot() {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+      routes: snapshotMap(this.routes, ({ latency, ...counts }) => ({ ...counts, latency: latency.snapshot() })),
+      features: snapshotMap(this.features, ({ latency, tokens, ...counts }) => ({
+        ...counts,
+        tokens: { ...tokens },
+        latency: latency.snapshot(),
+      })),
+      upstream: snapshotMap(this.upstream, ({ latency, ...counts }) => ({ ...counts, latency: latency.snapshot() })),
+    };
+  }
+}
+
+// Export a singleton instance
+export const metrics = new Metrics();
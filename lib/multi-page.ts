@@ -0,0 +1,107 @@
+// lib/multi-page.ts
+import type { JsonSchema } from './json-schema';
+import type { PageInfo } from './request-schema';
+
+/** A page in a multi-page request, with the label the answer refers to it by */
+export interface PageSource {
+  /** `S1`, `S2`, ... in the order the pages were sent */
+  id: string;
+  title?: string;
+  url?: string;
+  /** What the model reads: the selection if there is one, else the page text */
+  text: string;
+}
+
+export interface ComparisonTable {
+  /** `Aspect`, then one column per source id */
+  columns: string[];
+  rows: string[][];
+}
+
+/** A reply that passed validation against COMPARISON_SCHEMA */
+interface RawComparison {
+  answer: string;
+  rows: Array<{ aspect: string; values: string[] }>;
+}
+
+export const COMPARISON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string', description: 'The answer in markdown, referring to sources by label, e.g. [S2]' },
+    rows: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          aspect: { type: 'string', description: 'What this row compares, e.g. price or main argument' },
+          values: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'One short cell per source, in source order',
+          },
+        },
+        required: ['aspect', 'values'],
+      },
+    },
+  },
+  required: ['answer', 'rows'],
+};
+
+const MISSING_CELL = '–';
+
+export function getSourceId(index: number): string {
+  return `S${index + 1}`;
+}
+
+/** Labels each page and picks the text to send. */
+export function toPageSources(pages: PageInfo[] = []): PageSource[] {
+  return pages.map((page, index) => ({
+    id: getSourceId(index),
+    title: page.title,
+    url: page.url,
+    text: page.selectedText || page.mainText || '',
+  }));
+}
+
+export function buildComparisonNote(sources: PageSource[]): string {
+  return [
+    `SOURCES: PAGE CONTENT below holds ${sources.length} pages, labelled ${sources.map((source) => source.id).join(', ')}.`,
+    'Refer to them by label in square brackets, e.g. [S1], whenever you use something from one. Never mix up which source said what.',
+    `Besides the prose "answer", fill "rows" with the comparison table: one row per aspect, with exactly ${sources.length} "values" in source order. Use "${MISSING_CELL}" when a source says nothing about an aspect.`,
+  ].join('\n');
+}
+
+/** The validated reply as a table with one column per source, cells padded or cut to fit. */
+export function toComparisonTable(data: unknown, sources: PageSource[]): { answer: string; table: ComparisonTable } {
+  const { answer, rows } = data as RawComparison;
+
+  return {
+    answer,
+    table: {
+      columns: ['Aspect', ...sources.map((source) => source.id)],
+      rows: rows.map((row) => [
+        row.aspect,
+        ...sources.map((_, index) => row.values[index]?.trim() || MISSING_CELL),
+      ]),
+    },
+  };
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/** The table as markdown, with a key linking each label to its page. */
+export function renderComparison(table: ComparisonTable, sources: PageSource[]): string {
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(' | ')} |`;
+  const key = sources.map((source) => `- **${source.id}**: ${source.title || source.url || 'Untitled page'}`);
+
+  return [
+    line(table.columns),
+    line(table.columns.map(() => '---')),
+    ...table.rows.map(line),
+    '',
+    ...key,
+  ].join('\n');
+}
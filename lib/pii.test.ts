@@ -0,0 +1,84 @@
+// lib/pii.test.ts
+import { describe, expect, it } from 'vitest';
+import { containsPlaceholders, PiiRedactor } from './pii';
+
+describe('PiiRedactor on long runs without a match', () => {
+  it.each([
+    ['local-part characters', 'A'.repeat(60000)],
+    ['dotted words', 'a.'.repeat(30000)],
+    ['an address with no top-level domain', `a@${'b.'.repeat(30000)}1`],
+    ['repeated parameter keywords', `?${'token'.repeat(12000)}`],
+    ['a parameter name with no value', `?token${'a'.repeat(60000)}`],
+  ])('scrubs 60 000 characters of %s in linear time', (_, text) => {
+    const started = performance.now();
+    expect(new PiiRedactor().scrub(text)).toBe(text);
+    expect(performance.now() - started).toBeLessThan(500);
+  });
+
+  it('still finds an address after a long run of local-part characters', () => {
+    const scrubbed = new PiiRedactor(['email']).scrub(`${'x'.repeat(5000)} jane.doe@example.com`);
+    expect(scrubbed).toMatch(/ \[EMAIL_[0-9a-f]{6}\]$/);
+  });
+
+  it('still finds a secret parameter with a long name', () => {
+    const scrubbed = new PiiRedactor(['urlSecret']).scrub('https://example.com/?x_api_key_for_reports=abc123&page=2');
+    expect(scrubbed).toMatch(/^https:\/\/example\.com\/\?x_api_key_for_reports=\[SECRET_[0-9a-f]{6}\]&page=2$/);
+  });
+});
+
+describe('PiiRedactor', () => {
+  it.each([
+    ['a card number that passes the Luhn check', '4111 1111 1111 1111', 'CARD'],
+    ['a valid IBAN', 'GB82 WEST 1234 5698 7654 32', 'IBAN'],
+    ['a compact IBAN', 'DE89370400440532013000', 'IBAN'],
+    ['a phone number', '+1 415 555 2671', 'PHONE'],
+    ['an API token', 'gsk_abcdefghijklmnopqrstuvwx', 'TOKEN'],
+  ])('replaces %s', (_, value, label) => {
+    expect(new PiiRedactor().scrub(`Use ${value} today.`)).toMatch(new RegExp(`^Use \\[${label}_[0-9a-f]{6}\\] today\\.$`));
+  });
+
+  it.each([
+    ['a card number that fails the Luhn check', '4111 1111 1111 1112'],
+    ['an IBAN with wrong check digits', 'GB82 WEST 1234 5698 7654 33'],
+    ['a date', '2026-03-14'],
+    ['an order number', '1234 5678 9012 3456'],
+  ])('leaves %s alone', (_, value) => {
+    expect(new PiiRedactor().scrub(`Ref ${value}.`)).toBe(`Ref ${value}.`);
+  });
+
+  it('gives a value the same placeholder in every request, and others a different one', () => {
+    const first = new PiiRedactor().scrub('Mail jane@example.com or JANE@example.com, not bob@example.com');
+    const again = new PiiRedactor().scrub('jane@example.com');
+    const [jane, janeUpper, bob] = first.match(/\[EMAIL_[0-9a-f]{6}\]/g) || [];
+
+    expect(again).toBe(jane);
+    expect(janeUpper).toBe(jane);
+    expect(bob).not.toBe(jane);
+  });
+
+  it('passes scrubbed text through unchanged and counts what it replaced', () => {
+    const redactor = new PiiRedactor();
+    const scrubbed = redactor.scrub('jane@example.com, +1 415 555 2671');
+
+    expect(redactor.scrub(scrubbed)).toBe(scrubbed);
+    expect(redactor.counts).toEqual({ email: 1, phone: 1 });
+    expect(containsPlaceholders(scrubbed)).toBe(true);
+    expect(containsPlaceholders('[EMAIL_xyz]')).toBe(false);
+  });
+
+  it('restores its own placeholders in text, JSON and split stream chunks', () => {
+    const redactor = new PiiRedactor(['email']);
+    const placeholder = redactor.scrub('jane@example.com');
+    const unknown = '[EMAIL_000000]';
+
+    expect(redactor.restore(`Write to ${placeholder} or ${unknown}.`)).toBe(`Write to jane@example.com or ${unknown}.`);
+    expect(redactor.restoreDeep({ contacts: [{ email: placeholder }], count: 1 })).toEqual({
+      contacts: [{ email: 'jane@example.com' }],
+      count: 1,
+    });
+
+    const restorer = redactor.createStreamRestorer();
+    const chunks = ['Write to ', placeholder.slice(0, 5), placeholder.slice(5), ' today [', 'really'];
+    expect(chunks.map((chunk) => restorer.push(chunk)).join('') + restorer.flush()).toBe('Write to jane@example.com today [really');
+  });
+});
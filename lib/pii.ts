@@ -0,0 +1,204 @@
+// lib/pii.ts
+import crypto from 'crypto';
+
+export type PiiCategory = 'email' | 'phone' | 'card' | 'iban' | 'token' | 'urlSecret';
+
+export const PII_CATEGORIES: PiiCategory[] = ['urlSecret', 'token', 'email', 'iban', 'card', 'phone'];
+
+const PLACEHOLDER_LABELS: Record<PiiCategory, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  card: 'CARD',
+  iban: 'IBAN',
+  token: 'TOKEN',
+  urlSecret: 'SECRET',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|CARD|IBAN|TOKEN|SECRET)_[0-9a-f]{6}\]/g;
+
+// The longest placeholder, and so the most a stream has to hold back while one may still be arriving
+const MAX_PLACEHOLDER_LENGTH = '[SECRET_000000]'.length;
+
+export const PII_NOTE =
+  'PRIVACY: Values such as [EMAIL_1a2b3c] or [PHONE_4d5e6f] stand for personal data removed before you saw the page. Write them exactly as they appear when you need to refer to them, and never guess what they hide.';
+
+// Query parameters whose values are credentials, one-time codes or session ids. Name parts are
+// bounded so a long run of name characters is not rescanned from every keyword inside it
+const URL_SECRET = /([?&#;](?:[\w.-]{0,64}(?:token|key|secret|password|passwd|pwd|auth|session|sid|sig|signature|code|credential)[\w.-]{0,64})=)(?!\[)([^&#\s"'<>]*[^&#\s"'<>.,;:!?)\]])/gi;
+
+const TOKEN_PATTERNS = [
+  /\b(?:sk|pk|rk)[-_](?:live|test|proj|ant)[-_][\w-]{16,}/g,
+  /\bsk-[A-Za-z0-9]{20,}/g,
+  /\bgsk_[A-Za-z0-9]{20,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_\w{20,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAIza[\w-]{35}/g,
+  /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g,
+  /\ba[ik]t_[\w.-]{16,}/g,
+  /(?<=\bBearer\s+)[\w.~+/-]{16,}=*/g,
+];
+
+// A local part is at most 64 characters; unbounded, every position in a long run without `@` rescans the rest
+const EMAIL = /[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+const IBAN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+const CARD = /(?<![\w.])(?:\d[ -]?){12,18}\d(?![\w.])/g;
+const PHONE =
+  /(?<![\w@/.+-])(?:\+\d[\d\s().-]{6,}\d|\(\d{2,4}\)[\s.-]?\d[\d\s.-]{4,}\d|\d{3}[\s.-]\d{3,4}[\s.-]\d{3,4}(?:[\s.-]\d{2,4})?)(?![\w/-])/g;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isIban(value: string): boolean {
+  const compact = value.replace(/ /g, '');
+  if (compact.length < 15 || compact.length > 34) return false;
+
+  // Move the country code and check digits to the end, letters become 10-35, then mod 97 must be 1
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isPhone(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 9 || digits.length > 15) return false;
+  // Dates and IP addresses have the same shape
+  return !/^\d{4}[-./]\d{2}[-./]\d{2}$/.test(value.trim()) && !/^\d{1,3}(?:\.\d{1,3}){3}$/.test(value.trim());
+}
+
+let processSecret: string | undefined;
+
+// Without PII_PLACEHOLDER_SECRET, placeholders are stable for the life of the process
+function getPlaceholderSecret(): string {
+  return process.env.PII_PLACEHOLDER_SECRET || (processSecret ||= crypto.randomBytes(32).toString('hex'));
+}
+
+/**
+ * Replaces personal data in text with placeholders such as `[EMAIL_1a2b3c]`.
+ * A placeholder is a keyed hash of the value, so the same address gets the
+ * same placeholder in every request, page and conversation turn, and text
+ * that was scrubbed before passes through unchanged. The redactor remembers
+ * what it replaced so the answer can be restored for the caller.
+ */
+export class PiiRedactor {
+  private originals = new Map<string, string>();
+  readonly counts: Partial<Record<PiiCategory, number>> = {};
+
+  constructor(private readonly categories: PiiCategory[] = PII_CATEGORIES) {}
+
+  get total(): number {
+    return Object.values(this.counts).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  /** Scrubs `text` for the redactor's categories, or for `categories` when given. */
+  scrub(text: string, categories: PiiCategory[] = this.categories): string {
+    let scrubbed = text;
+    for (const category of PII_CATEGORIES) {
+      if (categories.includes(category)) {
+        scrubbed = this.scrubCategory(scrubbed, category);
+      }
+    }
+    return scrubbed;
+  }
+
+  /** Puts the original values back in place of this request's placeholders. */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /** `restore` over every string in a JSON value. */
+  restoreDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.restore(value) as T;
+    if (Array.isArray(value)) return value.map((item) => this.restoreDeep(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [key, this.restoreDeep(field)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Restores placeholders in streamed text. A placeholder split across
+   * chunks is held back until it is complete; call `flush` at the end.
+   */
+  createStreamRestorer() {
+    let pending = '';
+
+    return {
+      push: (chunk: string): string => {
+        const text = pending + chunk;
+        const open = text.lastIndexOf('[');
+        const held = open >= 0 && !text.includes(']', open) && text.length - open < MAX_PLACEHOLDER_LENGTH;
+        pending = held ? text.slice(open) : '';
+        return this.restore(held ? text.slice(0, open) : text);
+      },
+      flush: (): string => {
+        const rest = this.restore(pending);
+        pending = '';
+        return rest;
+      },
+    };
+  }
+
+  private placeholder(category: PiiCategory, value: string): string {
+    const hash = crypto
+      .createHmac('sha256', getPlaceholderSecret())
+      .update(`${category}:${value.toLowerCase()}`)
+      .digest('hex')
+      .slice(0, 6);
+    const placeholder = `[${PLACEHOLDER_LABELS[category]}_${hash}]`;
+
+    this.originals.set(placeholder, value);
+    this.counts[category] = (this.counts[category] || 0) + 1;
+    return placeholder;
+  }
+
+  private scrubCategory(text: string, category: PiiCategory): string {
+    switch (category) {
+      case 'urlSecret':
+        return text.replace(URL_SECRET, (_match, prefix: string, value: string) => prefix + this.placeholder(category, value));
+      case 'token':
+        return TOKEN_PATTERNS.reduce(
+          (current, pattern) => current.replace(pattern, (value) => this.placeholder(category, value)),
+          text
+        );
+      case 'email':
+        return text.replace(EMAIL, (value) => this.placeholder(category, value));
+      case 'iban':
+        return text.replace(IBAN, (value) => (isIban(value) ? this.placeholder(category, value) : value));
+      case 'card':
+        return text.replace(CARD, (value) => {
+          const digits = digitsOf(value);
+          return digits.length >= 13 && passesLuhn(digits) ? this.placeholder(category, value) : value;
+        });
+      case 'phone':
+        return text.replace(PHONE, (value) => (isPhone(value) ? this.placeholder(category, value) : value));
+    }
+  }
+}
+
+export function containsPlaceholders(text: string | undefined): boolean {
+  return !!text && new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+}
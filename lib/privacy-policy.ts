@@ -0,0 +1,264 @@
+// lib/privacy-policy.ts
+import fs from 'fs';
+import path from 'path';
+import { ApiError, ErrorCodes } from './errors';
+import { featureRegistry } from './features';
+import { createLogger } from './logger';
+import { PII_CATEGORIES, PiiRedactor, type PiiCategory } from './pii';
+import type { PageInfo, ProcessRequest } from './request-schema';
+
+const log = createLogger('privacy');
+
+/** `redact` scrubs personal data, `block` keeps page content off the wire, `allow` sends it as is */
+export type PrivacyAction = 'redact' | 'block' | 'allow';
+
+const PRIVACY_ACTIONS: PrivacyAction[] = ['redact', 'block', 'allow'];
+
+export interface PrivacyPolicy {
+  action: PrivacyAction;
+  /** What `redact` looks for */
+  categories: PiiCategory[];
+  /** Put the original values back into the answer before it is returned */
+  restore: boolean;
+}
+
+interface PrivacyConfigFile {
+  default?: Partial<PrivacyPolicy>;
+  /** Keyed by host name; a key also covers its subdomains */
+  domains?: Record<string, Partial<PrivacyPolicy>>;
+}
+
+/** What the policy did to a request, returned to the caller as `privacy` */
+export interface PrivacyReport {
+  /** The page's host name, when it had a URL */
+  domain?: string;
+  action: PrivacyAction;
+  /** Values replaced with placeholders, by category */
+  redactions: Partial<Record<PiiCategory, number>>;
+  restored: boolean;
+  /** For multi-page requests, what was done to each page */
+  pages?: Array<{ domain?: string; action: PrivacyAction }>;
+}
+
+/** The scrubbed request, and what is needed to undo the scrubbing in the answer */
+export interface PrivacyContext {
+  redactor: PiiRedactor;
+  restore: boolean;
+  report: PrivacyReport;
+  /** The page as the client sent it, for checking citation quotes against */
+  originalPageInfo?: PageInfo;
+}
+
+const DEFAULT_CONFIG_PATH = 'privacy.config.json';
+
+const DEFAULT_POLICY: PrivacyPolicy = {
+  action: 'redact',
+  categories: PII_CATEGORIES,
+  restore: false,
+};
+
+function validatePolicy(policy: PrivacyPolicy, name: string, source: string) {
+  const problems = [
+    !PRIVACY_ACTIONS.includes(policy.action) && `action must be one of: ${PRIVACY_ACTIONS.join(', ')}`,
+    (!Array.isArray(policy.categories) || policy.categories.some((category) => !PII_CATEGORIES.includes(category))) &&
+      `categories may only contain: ${PII_CATEGORIES.join(', ')}`,
+    typeof policy.restore !== 'boolean' && 'restore must be a boolean',
+  ].filter(Boolean);
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid privacy policy "${name}" in ${source}: ${problems.join('; ')}`);
+  }
+}
+
+function getHostname(url?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getOrigin(url: string): string | undefined {
+  try {
+    const { origin } = new URL(url);
+    return origin === 'null' ? undefined : origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decides what may be sent to the model for each site. The default policy
+ * and per-domain overrides come from a JSON file (`PRIVACY_CONFIG`, default
+ * `privacy.config.json`), which is re-read when it changes. Without one,
+ * every page is redacted and answers keep their placeholders.
+ */
+export class PrivacyPolicyRegistry {
+  private defaultPolicy = DEFAULT_POLICY;
+  private domains = new Map<string, PrivacyPolicy>();
+  private loadedMtime: number | null = null;
+
+  private getConfigPath() {
+    return path.resolve(process.cwd(), process.env.PRIVACY_CONFIG || DEFAULT_CONFIG_PATH);
+  }
+
+  private ensureLoaded() {
+    const configPath = this.getConfigPath();
+    const mtime = fs.existsSync(configPath) ? fs.statSync(configPath).mtimeMs : 0;
+
+    if (this.loadedMtime === mtime) {
+      return;
+    }
+
+    let defaultPolicy = DEFAULT_POLICY;
+    const domains = new Map<string, PrivacyPolicy>();
+
+    if (mtime) {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as PrivacyConfigFile;
+
+      defaultPolicy = { ...DEFAULT_POLICY, ...config.default };
+      validatePolicy(defaultPolicy, 'default', configPath);
+
+      for (const [domain, overrides] of Object.entries(config.domains || {})) {
+        const policy = { ...defaultPolicy, ...overrides };
+        validatePolicy(policy, domain, configPath);
+        domains.set(domain.toLowerCase().replace(/^\*\./, ''), policy);
+      }
+
+      log.info('Loaded privacy config', { path: configPath, domains: domains.size });
+    }
+
+    this.defaultPolicy = defaultPolicy;
+    this.domains = domains;
+    this.loadedMtime = mtime;
+  }
+
+  /** The policy for a host: the longest matching domain key, else the default. */
+  getPolicy(hostname?: string): PrivacyPolicy {
+    this.ensureLoaded();
+    if (!hostname) {
+      return this.defaultPolicy;
+    }
+
+    const labels = hostname.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const policy = this.domains.get(labels.slice(i).join('.'));
+      if (policy) return policy;
+    }
+    return this.defaultPolicy;
+  }
+}
+
+export const privacyPolicies = new PrivacyPolicyRegistry();
+
+function scrubPageInfo(pageInfo: PageInfo, redactor: PiiRedactor, categories: PiiCategory[]): PageInfo {
+  const scrub = (text?: string) => (text === undefined ? undefined : redactor.scrub(text, categories));
+  return {
+    ...pageInfo,
+    title: scrub(pageInfo.title),
+    url: scrub(pageInfo.url),
+    selectedText: scrub(pageInfo.selectedText),
+    mainText: scrub(pageInfo.mainText),
+    extraction: pageInfo.extraction && { ...pageInfo.extraction, author: scrub(pageInfo.extraction.author) },
+  };
+}
+
+function contentBlocked(hostname?: string) {
+  return new ApiError(
+    ErrorCodes.CONTENT_BLOCKED,
+    `Page content from ${hostname || 'this site'} may not be sent to the AI provider`,
+    403,
+    { domain: hostname }
+  );
+}
+
+function categoriesFor(policy: PrivacyPolicy): PiiCategory[] {
+  return policy.action === 'allow' ? [] : policy.categories;
+}
+
+/**
+ * Each page of a multi-page request under its own site's policy. Comparing
+ * needs every page's text, so a blocked page fails the request.
+ */
+function scrubPages(pages: PageInfo[], redactor: PiiRedactor) {
+  return pages.map((page) => {
+    const hostname = getHostname(page.url);
+    const policy = privacyPolicies.getPolicy(hostname);
+    if (policy.action === 'block') {
+      throw contentBlocked(hostname);
+    }
+    return { page: scrubPageInfo(page, redactor, categoriesFor(policy)), hostname, policy };
+  });
+}
+
+/**
+ * What is left of the page under `block`: its origin and content type. A
+ * request that cannot be answered without the page text fails instead.
+ */
+function blockPageInfo(request: ProcessRequest, hostname?: string): PageInfo | undefined {
+  const definition = featureRegistry.require(request.feature);
+  const needsPage =
+    definition.requiredInputs.some((input) => input === 'selectedText' || input === 'mainText') ||
+    request.citations ||
+    !request.query;
+
+  if (needsPage) {
+    throw contentBlocked(hostname);
+  }
+
+  const origin = request.pageInfo?.url ? getOrigin(request.pageInfo.url) : undefined;
+  return origin || request.pageInfo?.contentType
+    ? { url: origin, contentType: request.pageInfo?.contentType }
+    : undefined;
+}
+
+/**
+ * Applies the page's privacy policy to a request before anything is sent
+ * upstream. Page fields and conversation history are scrubbed (under
+ * `block`, the page is reduced to its origin first); the user's own query
+ * is left alone. `restorePii` on the request overrides the policy's
+ * `restore`.
+ */
+export function applyPrivacyPolicy(request: ProcessRequest): { request: ProcessRequest; privacy: PrivacyContext } {
+  const hostname = getHostname(request.pageInfo?.url);
+  const policy = privacyPolicies.getPolicy(hostname);
+  const redactor = new PiiRedactor(categoriesFor(policy));
+
+  const pageInfo =
+    policy.action === 'block' ? blockPageInfo(request, hostname) : request.pageInfo;
+  const pages = request.pages && scrubPages(request.pages, redactor);
+
+  // Restoring needs every policy involved to allow it, and at least one of them to redact
+  const policies = [policy, ...(pages || []).map((page) => page.policy)];
+  const restore =
+    policies.some((candidate) => candidate.action !== 'allow') &&
+    (request.restorePii ?? policies.every((candidate) => candidate.restore));
+
+  const scrubbed: ProcessRequest = {
+    ...request,
+    pageInfo: pageInfo && scrubPageInfo(pageInfo, redactor, categoriesFor(policy)),
+    pages: pages?.map(({ page }) => page),
+    conversationHistory: request.conversationHistory?.map((message) => ({
+      ...message,
+      content: redactor.scrub(message.content),
+    })),
+  };
+
+  const report: PrivacyReport = {
+    domain: hostname,
+    action: policy.action,
+    redactions: { ...redactor.counts },
+    restored: restore,
+    pages: pages?.map((page) => ({ domain: page.hostname, action: page.policy.action })),
+  };
+
+  if (policy.action !== 'allow') {
+    log.info('Privacy policy applied', { domain: hostname, action: policy.action, redactions: redactor.total });
+  }
+
+  return {
+    request: scrubbed,
+    privacy: { redactor, restore, report, originalPageInfo: request.pageInfo },
+  };
+}
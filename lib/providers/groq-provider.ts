@@ -0,0 +1,149 @@
+// lib/providers/groq-provider.ts
+import Groq from 'groq-sdk';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiError, ErrorCodes } from '../errors';
+import { createLogger } from '../logger';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './openai-format';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  LLMProvider,
+  SpeechParams,
+  SpeechResult,
+  TranscriptSegment,
+  TranscriptWord,
+  TranscriptionParams,
+  TranscriptionResult,
+} from './types';
+
+const log = createLogger('groq');
+
+// The SDK only types `text`; verbose_json responses carry the rest
+interface VerboseTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: TranscriptSegment[];
+  words?: TranscriptWord[];
+}
+
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly defaultChatModel = 'openai/gpt-oss-120b';
+  readonly defaultTranscriptionModel = 'whisper-large-v3-turbo';
+  readonly defaultSpeechModel = 'playai-tts';
+  readonly defaultVoice = 'Fritz-PlayAI';
+
+  private client: Groq;
+
+  constructor(apiKey: string | undefined = process.env.GROQ_API_KEY) {
+    if (!apiKey) {
+      throw new ApiError(
+        ErrorCodes.PROVIDER_NOT_CONFIGURED,
+        'GROQ_API_KEY environment variable is not set',
+        503
+      );
+    }
+    // Retries and fallbacks are handled in lib/upstream.ts, across all providers
+    this.client = new Groq({ apiKey, maxRetries: 0 });
+  }
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      messages: toOpenAIMessages(params.messages),
+      model: params.model,
+      temperature: params.temperature,
+      max_tokens: params.max_tokens,
+      top_p: params.top_p ?? 1,
+      tools: toOpenAITools(params.tools),
+      tool_choice: params.tools?.length ? params.toolChoice : undefined,
+    }, { signal: params.signal });
+    const message = completion.choices?.[0]?.message;
+
+    return {
+      content: message?.content || '',
+      model: completion.model,
+      usage: completion.usage,
+      toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+    };
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncGenerator<ChatCompletionChunk> {
+    const stream = await this.client.chat.completions.create({
+      messages: toOpenAIMessages(params.messages),
+      model: params.model,
+      temperature: params.temperature,
+      max_tokens: params.max_tokens,
+      top_p: params.top_p ?? 1,
+      stream: true,
+    }, { signal: params.signal });
+
+    for await (const chunk of stream) {
+      if (chunk.x_groq?.error) {
+        throw new Error(chunk.x_groq.error);
+      }
+
+      yield {
+        content: chunk.choices?.[0]?.delta?.content || undefined,
+        model: chunk.model,
+        usage: chunk.x_groq?.usage,
+      };
+    }
+  }
+
+  async transcribe(params: TranscriptionParams): Promise<TranscriptionResult> {
+    const tempFilePath = path.join(
+      os.tmpdir(),
+      `audio-${Date.now()}.${params.fileExtension}`
+    );
+
+    log.debug('Temporary file for transcription', { tempFilePath });
+
+    try {
+      fs.writeFileSync(tempFilePath, params.audio);
+
+      const verbose = params.response_format === 'verbose_json';
+      const transcription = (await this.client.audio.transcriptions.create({
+        file: fs.createReadStream(tempFilePath),
+        model: params.model,
+        prompt: params.prompt || '',
+        response_format: params.response_format || 'json',
+        timestamp_granularities: verbose ? ['segment', 'word'] : undefined,
+        language: params.language,
+        temperature: params.temperature || 0.0,
+      }, { signal: params.signal })) as VerboseTranscription;
+
+      if (!verbose) {
+        return { text: transcription.text };
+      }
+
+      return {
+        text: transcription.text,
+        language: transcription.language,
+        duration: transcription.duration,
+        segments: transcription.segments?.map(({ id, start, end, text }) => ({ id, start, end, text })),
+        words: transcription.words?.map(({ word, start, end }) => ({ word, start, end })),
+      };
+    } finally {
+      if (fs.existsSync(tempFilePath)) {
+        fs.unlinkSync(tempFilePath);
+      }
+    }
+  }
+
+  async synthesizeSpeech(params: SpeechParams): Promise<SpeechResult> {
+    // PlayAI voices only produce WAV; other formats are converted by the caller
+    const response = await this.client.audio.speech.create({
+      model: params.model,
+      voice: params.voice,
+      input: params.text,
+      response_format: 'wav',
+      speed: params.speed,
+    }, { signal: params.signal });
+
+    return { audio: Buffer.from(await response.arrayBuffer()), format: 'wav' };
+  }
+}
@@ -0,0 +1,59 @@
+// lib/providers/index.ts
+import { ApiError, ErrorCodes } from '../errors';
+import { GroqProvider } from './groq-provider';
+import { MockProvider } from './mock-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import type { LLMProvider } from './types';
+
+export type * from './types';
+
+const providerFactories: { [key: string]: () => LLMProvider } = {
+  groq: () => new GroqProvider(),
+  'openai-compatible': () => new OpenAICompatibleProvider(),
+  mock: () => new MockProvider(),
+};
+
+// Aliases accepted from requests and LLM_PROVIDER
+const providerAliases: { [key: string]: string } = {
+  openai: 'openai-compatible',
+  ollama: 'openai-compatible',
+  llamacpp: 'openai-compatible',
+  'llama.cpp': 'openai-compatible',
+};
+
+// Providers are created lazily so a missing key only fails the requests that need it
+const instances = new Map<string, LLMProvider>();
+
+export function getProviderNames(): string[] {
+  return Object.keys(providerFactories);
+}
+
+export function getDefaultProviderName(): string {
+  return process.env.LLM_PROVIDER || 'groq';
+}
+
+/**
+ * Returns the provider named in the request, or the configured default
+ * (`LLM_PROVIDER`, falling back to `groq`).
+ */
+export function getProvider(name?: string): LLMProvider {
+  const requested = (name || getDefaultProviderName()).toLowerCase();
+  const resolved = providerAliases[requested] || requested;
+
+  const factory = providerFactories[resolved];
+  if (!factory) {
+    throw new ApiError(
+      ErrorCodes.UNKNOWN_PROVIDER,
+      `Unknown AI provider: ${requested}. Available providers: ${getProviderNames().join(', ')}`,
+      400
+    );
+  }
+
+  let provider = instances.get(resolved);
+  if (!provider) {
+    provider = factory();
+    instances.set(resolved, provider);
+  }
+
+  return provider;
+}
@@ -0,0 +1,221 @@
+// lib/providers/mock-provider.ts
+import crypto from 'crypto';
+import type { JsonSchema } from '../json-schema';
+import { UpstreamHttpError } from '../upstream';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  LLMProvider,
+  SpeechParams,
+  SpeechResult,
+  TokenUsage,
+  ToolCall,
+  TranscriptionParams,
+  TranscriptionResult,
+} from './types';
+
+/**
+ * Deterministic offline provider. The same input always produces the same
+ * output, so it can back local development and tests without any API key.
+ * Models named `mock-error-<status>` (e.g. `mock-error-429`) fail with that
+ * HTTP status, to exercise retries and fallbacks.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultChatModel = 'mock-chat';
+  readonly defaultTranscriptionModel = 'mock-whisper';
+  readonly defaultSpeechModel = 'mock-tts';
+  readonly defaultVoice = 'mock';
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    this.failIfAsked(params.model);
+
+    const toolCalls = this.buildToolCalls(params);
+    if (toolCalls) {
+      return { content: '', model: params.model, usage: this.estimateUsage(params, ''), toolCalls };
+    }
+
+    const content = this.buildResponse(params);
+
+    return {
+      content,
+      model: params.model,
+      usage: this.estimateUsage(params, content),
+    };
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncGenerator<ChatCompletionChunk> {
+    this.failIfAsked(params.model);
+    const content = this.buildResponse(params);
+
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      yield { content: piece, model: params.model };
+    }
+
+    yield { model: params.model, usage: this.estimateUsage(params, content) };
+  }
+
+  async transcribe(params: TranscriptionParams): Promise<TranscriptionResult> {
+    this.failIfAsked(params.model);
+    const digest = this.digest(params.audio.toString('base64'));
+    const text = `Mock transcription (${params.mimeType}, ${params.audio.length} bytes, ${digest}).`;
+
+    if (params.response_format !== 'verbose_json') {
+      return { text };
+    }
+
+    // Half a second per word, one segment for the whole clip
+    const words = text.split(' ').map((word, index) => ({
+      word,
+      start: index * 0.5,
+      end: (index + 1) * 0.5,
+    }));
+    const duration = words.length * 0.5;
+
+    return {
+      text,
+      // Whisper reports the language it detected by name
+      language: params.language || 'english',
+      duration,
+      segments: [{ id: 0, start: 0, end: duration, text }],
+      words,
+    };
+  }
+
+  /**
+   * A short tone per word (pitch from the word, length from the speed), as
+   * 16 kHz mono WAV. Always WAV, like backends that only support one format.
+   */
+  async synthesizeSpeech(params: SpeechParams): Promise<SpeechResult> {
+    const sampleRate = 16000;
+    const wordSeconds = 0.3 / (params.speed || 1);
+    const gapSeconds = 0.05 / (params.speed || 1);
+    const words = params.text.split(/\s+/).filter(Boolean);
+
+    const samples: number[] = [];
+    for (const word of words) {
+      const frequency = 220 + (parseInt(this.digest(word).slice(0, 2), 16) % 24) * 20;
+      for (let i = 0; i < Math.round(wordSeconds * sampleRate); i++) {
+        samples.push(Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000));
+      }
+      samples.push(...new Array(Math.round(gapSeconds * sampleRate)).fill(0));
+    }
+
+    const data = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, index) => data.writeInt16LE(sample, index * 2));
+
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVEfmt ', 8, 'latin1');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(1, 22); // mono
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36, 'latin1');
+    header.writeUInt32LE(data.length, 40);
+
+    return { audio: Buffer.concat([header, data]), format: 'wav' };
+  }
+
+  /**
+   * With tools offered and none called yet, calls one: the calculator for
+   * arithmetic in the task, otherwise the first tool with sample arguments.
+   */
+  private buildToolCalls(params: ChatCompletionParams): ToolCall[] | undefined {
+    if (!params.tools?.length || params.toolChoice === 'none' || params.messages.some((message) => message.role === 'tool')) {
+      return undefined;
+    }
+
+    const task = this.getTask(params);
+    const expression = task.match(/[\d.]+(?:\s*[-+*/^%]\s*[\d.]+)+/)?.[0];
+    const tool = (expression && params.tools.find((candidate) => candidate.name === 'calculator')) || params.tools[0];
+    const args = tool.name === 'calculator' && expression ? { expression } : this.sampleFromSchema(tool.parameters);
+
+    return [{ id: `call_${this.digest(task + tool.name)}`, name: tool.name, arguments: JSON.stringify(args) }];
+  }
+
+  private getTask(params: ChatCompletionParams): string {
+    const lastUserMessage =
+      [...params.messages].reverse().find((message) => message.role === 'user')?.content || '';
+    return lastUserMessage.match(/TASK: (.*)$/m)?.[1] || lastUserMessage.slice(0, 200);
+  }
+
+  private buildResponse(params: ChatCompletionParams): string {
+    // Structured output requests get a minimal instance of the schema
+    const schemaText = params.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content.match(/^SCHEMA:\n(.+)$/m)?.[1])
+      .find(Boolean);
+    if (schemaText) {
+      return JSON.stringify(this.sampleFromSchema(JSON.parse(schemaText)));
+    }
+
+    const task = this.getTask(params);
+    const digest = this.digest(JSON.stringify(params.messages));
+    const toolResults = params.messages.filter((message) => message.role === 'tool').length;
+
+    const response = [
+      `**Mock response** (${params.model}, ${digest})`,
+      '',
+      `Task: ${task}`,
+      '',
+      `Received ${params.messages.length} messages at temperature ${params.temperature}.`,
+      toolResults > 0 && `Used ${toolResults} tool result(s).`,
+    ]
+      .filter((line) => line !== false)
+      .join('\n');
+
+    // Respect max_tokens roughly (~4 characters per token)
+    return response.slice(0, params.max_tokens * 4);
+  }
+
+  private sampleFromSchema(schema: JsonSchema): unknown {
+    if (schema.enum) return schema.enum[0];
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((candidate) => candidate !== 'null') || 'null'
+      : schema.type;
+
+    switch (type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {}).map(([key, child]) => [key, this.sampleFromSchema(child)])
+        );
+      case 'array':
+        return Array.from({ length: Math.max(1, schema.minItems || 0) }, () => this.sampleFromSchema(schema.items || {}));
+      case 'string':
+        return 'mock';
+      case 'number':
+      case 'integer':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return false;
+      default:
+        return null;
+    }
+  }
+
+  private estimateUsage(params: ChatCompletionParams, content: string): TokenUsage {
+    const promptChars = params.messages.reduce((sum, message) => sum + message.content.length, 0);
+    const prompt_tokens = Math.ceil(promptChars / 4);
+    const completion_tokens = Math.ceil(content.length / 4);
+
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+
+  private failIfAsked(model: string) {
+    const status = /^mock-error-(\d{3})$/.exec(model)?.[1];
+    if (status) {
+      throw new UpstreamHttpError(Number(status), `${status} Simulated failure for ${model}`);
+    }
+  }
+
+  private digest(input: string): string {
+    return crypto.createHash('sha256').update(input).digest('hex').slice(0, 8);
+  }
+}
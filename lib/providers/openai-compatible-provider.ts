@@ -0,0 +1,214 @@
+// lib/providers/openai-compatible-provider.ts
+import { parseRetryAfter, UpstreamHttpError } from '../upstream';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools, type OpenAIToolCall } from './openai-format';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionParams,
+  ChatCompletionResult,
+  LLMProvider,
+  SpeechParams,
+  SpeechResult,
+  TokenUsage,
+  TranscriptionParams,
+  TranscriptionResult,
+} from './types';
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  transcriptionModel: string;
+  speechModel: string;
+  voice: string;
+}
+
+interface OpenAIChatResponse {
+  model: string;
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAIToolCall[] | null } }>;
+  usage?: TokenUsage;
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: TokenUsage | null;
+}
+
+/**
+ * Talks to any server implementing the OpenAI HTTP API, e.g. Ollama
+ * (`http://localhost:11434/v1`) or llama.cpp's `llama-server`. Speech goes
+ * to `/audio/speech`, which local engines such as Kokoro-FastAPI implement.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly defaultChatModel: string;
+  readonly defaultTranscriptionModel: string;
+  readonly defaultSpeechModel: string;
+  readonly defaultVoice: string;
+
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: Partial<OpenAICompatibleConfig> = {}) {
+    this.baseUrl = (
+      config.baseUrl ||
+      process.env.OPENAI_COMPAT_BASE_URL ||
+      'http://localhost:11434/v1'
+    ).replace(/\/+$/, '');
+    this.apiKey = config.apiKey || process.env.OPENAI_COMPAT_API_KEY;
+    this.defaultChatModel =
+      config.chatModel || process.env.OPENAI_COMPAT_MODEL || 'llama3.1';
+    this.defaultTranscriptionModel =
+      config.transcriptionModel ||
+      process.env.OPENAI_COMPAT_TRANSCRIPTION_MODEL ||
+      'whisper-1';
+    this.defaultSpeechModel =
+      config.speechModel || process.env.OPENAI_COMPAT_SPEECH_MODEL || 'tts-1';
+    this.defaultVoice = config.voice || process.env.OPENAI_COMPAT_VOICE || 'alloy';
+  }
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult> {
+    const { tools, toolChoice, signal, ...rest } = params;
+    const res = await this.post('/chat/completions', signal, JSON.stringify({
+      ...rest,
+      messages: toOpenAIMessages(params.messages),
+      tools: toOpenAITools(tools),
+      tool_choice: tools?.length ? toolChoice : undefined,
+      top_p: params.top_p ?? 1,
+      stream: false,
+    }), { 'Content-Type': 'application/json' });
+
+    const data = (await res.json()) as OpenAIChatResponse;
+    const message = data.choices?.[0]?.message;
+
+    return {
+      content: message?.content || '',
+      model: data.model || params.model,
+      usage: data.usage,
+      toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+    };
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncGenerator<ChatCompletionChunk> {
+    const { signal, ...rest } = params;
+    const res = await this.post('/chat/completions', signal, JSON.stringify({
+      ...rest,
+      messages: toOpenAIMessages(params.messages),
+      top_p: params.top_p ?? 1,
+      stream: true,
+      stream_options: { include_usage: true },
+    }), { 'Content-Type': 'application/json', Accept: 'text/event-stream' });
+
+    if (!res.body) {
+      throw new Error('Empty streaming response from provider');
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice('data:'.length).trim();
+          if (data === '[DONE]') return;
+
+          const chunk = JSON.parse(data) as OpenAIChatChunk;
+          yield {
+            content: chunk.choices?.[0]?.delta?.content || undefined,
+            model: chunk.model,
+            usage: chunk.usage || undefined,
+          };
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async transcribe(params: TranscriptionParams): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append(
+      'file',
+      new Blob([new Uint8Array(params.audio)], { type: params.mimeType }),
+      `audio.${params.fileExtension}`
+    );
+    formData.append('model', params.model);
+    formData.append('response_format', params.response_format || 'json');
+    if (params.response_format === 'verbose_json') {
+      formData.append('timestamp_granularities[]', 'segment');
+      formData.append('timestamp_granularities[]', 'word');
+    }
+    if (params.prompt) formData.append('prompt', params.prompt);
+    if (params.language) formData.append('language', params.language);
+    if (params.temperature !== undefined) {
+      formData.append('temperature', String(params.temperature));
+    }
+
+    const res = await this.post('/audio/transcriptions', params.signal, formData);
+    const data = (await res.json()) as Partial<TranscriptionResult>;
+
+    return {
+      text: data.text || '',
+      language: data.language,
+      duration: data.duration,
+      segments: data.segments?.map(({ id, start, end, text }) => ({ id, start, end, text })),
+      words: data.words?.map(({ word, start, end }) => ({ word, start, end })),
+    };
+  }
+
+  async synthesizeSpeech(params: SpeechParams): Promise<SpeechResult> {
+    const res = await this.post(
+      '/audio/speech',
+      params.signal,
+      JSON.stringify({
+        model: params.model,
+        input: params.text,
+        voice: params.voice,
+        // The OpenAI API calls Ogg/Opus "opus"
+        response_format: params.format === 'ogg' ? 'opus' : params.format,
+        speed: params.speed,
+      }),
+      { 'Content-Type': 'application/json' }
+    );
+
+    return { audio: Buffer.from(await res.arrayBuffer()), format: params.format };
+  }
+
+  private async post(
+    endpoint: string,
+    signal: AbortSignal | undefined,
+    body: BodyInit,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body,
+      signal,
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new UpstreamHttpError(
+        res.status,
+        `${res.status} ${res.statusText}${detail ? `: ${detail}` : ''}`,
+        parseRetryAfter(res.headers.get('retry-after'))
+      );
+    }
+
+    return res;
+  }
+}
@@ -0,0 +1,55 @@
+// lib/providers/openai-format.ts
+import type { ChatMessage, ToolCall, ToolSpec } from './types';
+
+// Groq and OpenAI-compatible servers share the OpenAI wire format for tool calls
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string };
+
+export function toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+  return messages.map((message): OpenAIMessage => {
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId || '' };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export function toOpenAITools(tools?: ToolSpec[]) {
+  return tools?.length
+    ? tools.map((tool) => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }))
+    : undefined;
+}
+
+export function fromOpenAIToolCalls(calls?: Array<Partial<OpenAIToolCall>> | null): ToolCall[] | undefined {
+  const toolCalls = (calls || [])
+    .filter((call) => call.function?.name)
+    .map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function!.name,
+      arguments: call.function!.arguments || '{}',
+    }));
+  return toolCalls.length > 0 ? toolCalls : undefined;
+}
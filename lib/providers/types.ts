@@ -0,0 +1,129 @@
+// lib/providers/types.ts
+import type { JsonSchema } from '../json-schema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** On assistant messages: the tools the model asked to call */
+  toolCalls?: ToolCall[];
+  /** On tool messages: the call this is the result of */
+  toolCallId?: string;
+}
+
+/** A function the model may call; `parameters` describes its JSON arguments */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON text as the model wrote it, not yet parsed or validated */
+  arguments: string;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionParams {
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  top_p?: number;
+  /** Functions offered to the model; only for non-streamed completions */
+  tools?: ToolSpec[];
+  /** `none` makes the model answer in text even though tools were offered */
+  toolChoice?: 'auto' | 'none';
+  /** Aborted when lib/upstream.ts gives up waiting; providers pass it to their HTTP call */
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+  /** Set instead of (or besides) content when the model wants tools called */
+  toolCalls?: ToolCall[];
+}
+
+/** One streamed piece of a completion; the last chunk usually only carries usage. */
+export interface ChatCompletionChunk {
+  content?: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+export interface TranscriptionParams {
+  audio: Buffer;
+  mimeType: string;
+  fileExtension: string;
+  model: string;
+  prompt?: string;
+  /** `verbose_json` asks for segment and word timestamps */
+  response_format?: 'json' | 'verbose_json';
+  /** ISO 639-1 code; omitted, the model detects the language */
+  language?: string;
+  temperature?: number;
+  /** See ChatCompletionParams.signal */
+  signal?: AbortSignal;
+}
+
+/** Times are in seconds from the start of the submitted audio */
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number;
+  /** Only present for `verbose_json`, and only if the backend supports it */
+  segments?: TranscriptSegment[];
+  words?: TranscriptWord[];
+}
+
+export type SpeechFormat = 'mp3' | 'wav' | 'ogg' | 'flac';
+
+export interface SpeechParams {
+  text: string;
+  model: string;
+  voice: string;
+  format: SpeechFormat;
+  speed?: number;
+  /** See ChatCompletionParams.signal */
+  signal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  /** Backends that can't produce the requested format return what they can; callers convert */
+  format: SpeechFormat;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultChatModel: string;
+  readonly defaultTranscriptionModel: string;
+  readonly defaultSpeechModel: string;
+  readonly defaultVoice: string;
+
+  createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletionResult>;
+  streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk>;
+  transcribe(params: TranscriptionParams): Promise<TranscriptionResult>;
+  synthesizeSpeech(params: SpeechParams): Promise<SpeechResult>;
+}
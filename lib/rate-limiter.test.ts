@@ -0,0 +1,51 @@
+// lib/rate-limiter.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRateLimitHeaders, RateLimiter } from './rate-limiter';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('RateLimiter', () => {
+  it('allows a burst up to the limit, then blocks', () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '3');
+    const limiter = new RateLimiter();
+
+    const results = [0, 1, 2, 3].map(() => limiter.take('client', 1000));
+    expect(results.map((result) => result?.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result?.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]?.resetSeconds).toBe(20);
+  });
+
+  it('refills evenly over the minute', () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '60');
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 60; i++) limiter.take('client', 0);
+
+    expect(limiter.take('client', 500)?.allowed).toBe(false);
+    expect(limiter.take('client', 1000)?.allowed).toBe(true);
+    expect(limiter.take('client', 1000)?.allowed).toBe(false);
+  });
+
+  it('counts each client separately', () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '1');
+    const limiter = new RateLimiter();
+
+    expect(limiter.take('a', 0)?.allowed).toBe(true);
+    expect(limiter.take('b', 0)?.allowed).toBe(true);
+    expect(limiter.take('a', 0)?.allowed).toBe(false);
+  });
+
+  it('is disabled by a limit of 0', () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '0');
+    expect(new RateLimiter().take('client')).toBeNull();
+  });
+
+  it('reports the result as headers', () => {
+    expect(getRateLimitHeaders({ allowed: true, limit: 60, remaining: 59, resetSeconds: 1 })).toEqual({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '59',
+      'X-RateLimit-Reset': '1',
+    });
+  });
+});
@@ -0,0 +1,77 @@
+// lib/rate-limiter.ts
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const IDLE_MS = 10 * 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until a request is allowed again (when blocked) or the bucket is full */
+  resetSeconds: number;
+}
+
+export const RATE_LIMIT_HEADER_NAMES = ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'];
+
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetSeconds),
+  };
+}
+
+/**
+ * Per-client request rate limit as a token bucket: `RATE_LIMIT_PER_MINUTE`
+ * requests (default 60, `0` disables) refilled evenly over each minute, so
+ * short bursts are fine but a sustained flood is not. Kept in memory, so
+ * each server process counts separately.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  getLimit(): number {
+    const configured = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '', 10);
+    return configured >= 0 ? configured : DEFAULT_REQUESTS_PER_MINUTE;
+  }
+
+  take(clientId: string, now = Date.now()): RateLimitResult | null {
+    const limit = this.getLimit();
+    if (limit === 0) {
+      return null;
+    }
+
+    const perMs = limit / 60000;
+    const previous = this.buckets.get(clientId);
+    const tokens = previous
+      ? Math.min(limit, previous.tokens + (now - previous.updatedAt) * perMs)
+      : limit;
+
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    this.buckets.set(clientId, { tokens: left, updatedAt: now });
+    this.prune(now);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(left),
+      resetSeconds: Math.ceil((allowed ? limit - left : 1 - left) / perMs / 1000),
+    };
+  }
+
+  private prune(now: number) {
+    if (this.buckets.size < 1000) return;
+    for (const [clientId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > IDLE_MS) this.buckets.delete(clientId);
+    }
+  }
+}
+
+// Export a singleton instance
+export const rateLimiter = new RateLimiter();
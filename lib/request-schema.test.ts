@@ -0,0 +1,27 @@
+// lib/request-schema.test.ts
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from './errors';
+import { parseProcessRequest, readPageHtml } from './request-schema';
+
+const HTML = `<article><h1>Notes</h1><p>${'Version 2 adds offline mode, sync and export. '.repeat(4)}</p></article>`;
+
+describe('pageInfo.html', () => {
+  it('is kept as sent by parsing and read by readPageHtml', () => {
+    const request = parseProcessRequest({ feature: 'summarize', pageInfo: { html: HTML } });
+    expect(request.pageInfo?.html).toBe(HTML);
+
+    const read = readPageHtml(request);
+    expect(read.pageInfo?.html).toBeUndefined();
+    expect(read.pageInfo?.mainText).toContain('Version 2 adds offline mode');
+    expect(read.pageInfo?.extraction?.outline).toEqual([{ level: 1, text: 'Notes' }]);
+  });
+
+  it('cannot be combined with citations', () => {
+    expect(() => parseProcessRequest({ feature: 'summarize', citations: true, pageInfo: { html: HTML } })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      parseProcessRequest({ feature: 'summarize', citations: true, pageInfo: { mainText: 'Version 2 adds offline mode.' } })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,835 @@
+// lib/request-schema.ts
+import { ValidationError, type ValidationIssue } from './errors';
+import type { UnmatchedCitationMode } from './citations';
+import { featureRegistry, type FeatureInput } from './features';
+import { extractReadableContent, type ExtractionReport } from './html-extract';
+import { checkSchemaDefinition, type JsonSchema } from './json-schema';
+import { normalizeLanguage } from './languages';
+import { INJECTION_MODES, type InjectionMode } from './prompt-injection';
+import type { SpeechFormat } from './providers';
+import { SPEECH_FORMATS } from './speech-text';
+import { SCHEMA_PRESETS } from './structured-output';
+import { toolRegistry } from './tools';
+import { TRANSCRIPT_FORMATS, type TranscriptFormat } from './transcript-format';
+
+/** Id of a feature in the feature registry */
+export type Feature = string;
+
+export const LIMITS = {
+  query: 4000,
+  featurePrompt: 2000,
+  action: 100,
+  model: 100,
+  provider: 50,
+  title: 500,
+  url: 2048,
+  contentType: 100,
+  selectedText: 20000,
+  mainText: 200000,
+  html: 500000,
+  pages: 6,
+  historyMessages: 50,
+  conversationId: 64,
+  conversationTitle: 200,
+  language: 40,
+  mimeType: 100,
+  transcriptionPrompt: 1000,
+  historyContent: 20000,
+  schema: 10000,
+  speechText: 20000,
+  responseId: 64,
+  voice: 100,
+  apiKeyName: 100,
+  apiKeyId: 64,
+};
+
+export interface HistoryMessage {
+  type: 'user' | 'assistant';
+  content: string;
+}
+
+export interface PageInfo {
+  title?: string;
+  url?: string;
+  contentType?: string;
+  wordCount?: number;
+  selectedText?: string;
+  mainText?: string;
+  /** Raw page HTML as sent; readPageHtml replaces it with `mainText` before the request runs */
+  html?: string;
+  /** Set when the page was sent as `html`: what was read from it besides `mainText` */
+  extraction?: ExtractionReport;
+}
+
+export interface ProcessRequest {
+  action?: string;
+  feature: Feature;
+  featurePrompt?: string;
+  conversationHistory?: HistoryMessage[];
+  query?: string;
+  pageInfo?: PageInfo;
+  /** The pages a multi-page feature (compare, synthesize) works on */
+  pages?: PageInfo[];
+  model?: string;
+  provider?: string;
+  stream?: boolean;
+  /** Set to false to disable map-reduce over long pages for summarize/extract */
+  longDocument?: boolean;
+  /** Server-side thread; its stored history replaces conversationHistory */
+  conversationId?: string;
+  /** JSON Schema the answer must satisfy (a preset is resolved into this) */
+  schema?: JsonSchema;
+  /** Preset name, or `custom` for a caller-supplied schema */
+  schemaName?: string;
+  /** Also render tabular structured output as CSV */
+  csv?: boolean;
+  /** Return claims with quotes verified against the page text */
+  citations?: boolean;
+  /** What to do with quotes not found in the page; defaults to `flag` */
+  unmatchedCitations?: UnmatchedCitationMode;
+  /** Put values the privacy policy redacted back into the answer; overrides the policy's `restore` */
+  restorePii?: boolean;
+  /** `strict` refuses risky features when the page looks like a prompt injection */
+  injectionMode?: InjectionMode;
+  /** Language code the answer is written in (and what `translate` translates into) */
+  responseLanguage?: string;
+  /** Tools the model may call before answering; `true` in the body means all of them */
+  tools?: string[];
+  /** Skip cached answers; set by routes from the X-Cache-Bypass header, never from the body */
+  bypassCache?: boolean;
+  /** Who is asking, for conversation and response ownership; set by routes from the authenticated client, never from the body */
+  clientId?: string;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Collects issues while walking a payload so every problem is reported at once. */
+class Checker {
+  readonly issues: ValidationIssue[] = [];
+
+  issue(path: string, code: ValidationIssue['code'], message: string) {
+    this.issues.push({ path, code, message });
+  }
+
+  string(value: unknown, path: string, maxLength: number): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.issue(path, 'INVALID_TYPE', 'must be a string');
+      return undefined;
+    }
+    if (value.length > maxLength) {
+      this.issue(path, 'TOO_LONG', `must be at most ${maxLength} characters`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      this.issue(path, 'INVALID_TYPE', 'must be a non-negative number');
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== 'boolean') {
+      this.issue(path, 'INVALID_TYPE', 'must be a boolean');
+      return undefined;
+    }
+    return value;
+  }
+
+  record(value: unknown, path: string): UnknownRecord | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!isRecord(value)) {
+      this.issue(path, 'INVALID_TYPE', 'must be an object');
+      return undefined;
+    }
+    return value;
+  }
+
+  /** A language code or English name, normalized to a code such as `de` or `pt-BR`. */
+  language(value: unknown, path: string, maxLength: number): string | undefined {
+    const raw = this.string(value, path, maxLength);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const language = normalizeLanguage(raw);
+    if (!language) {
+      this.issue(path, 'INVALID_VALUE', 'must be a language code such as de or pt-BR, or a language name');
+    }
+    return language;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T | undefined {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.issue(path, 'INVALID_VALUE', `must be one of: ${allowed.join(', ')}`);
+      return undefined;
+    }
+    return value as T;
+  }
+}
+
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+}
+
+function parsePageInfo(checker: Checker, raw: UnknownRecord, path: string): PageInfo {
+  return compact({
+    title: checker.string(raw.title, `${path}.title`, LIMITS.title),
+    url: checker.string(raw.url, `${path}.url`, LIMITS.url),
+    contentType: checker.string(raw.contentType, `${path}.contentType`, LIMITS.contentType),
+    wordCount: checker.number(raw.wordCount, `${path}.wordCount`),
+    selectedText: checker.string(raw.selectedText, `${path}.selectedText`, LIMITS.selectedText),
+    mainText: checker.string(raw.mainText, `${path}.mainText`, LIMITS.mainText),
+    html: checker.string(raw.html, `${path}.html`, LIMITS.html),
+  });
+}
+
+/** Page text the model can work on, counting HTML that has not been read yet */
+function hasPageText(pageInfo?: PageInfo): boolean {
+  return !!(pageInfo?.selectedText || pageInfo?.mainText || pageInfo?.html);
+}
+
+function parsePages(checker: Checker, raw: unknown): PageInfo[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    checker.issue('pages', 'INVALID_TYPE', 'must be an array');
+    return undefined;
+  }
+  if (raw.length > LIMITS.pages) {
+    checker.issue('pages', 'TOO_MANY_ITEMS', `must contain at most ${LIMITS.pages} pages`);
+    return undefined;
+  }
+
+  const pages: PageInfo[] = [];
+  raw.forEach((item, index) => {
+    const path = `pages[${index}]`;
+    if (!isRecord(item)) {
+      checker.issue(path, 'INVALID_TYPE', 'must be an object');
+      return;
+    }
+
+    const page = parsePageInfo(checker, item, path);
+    if (!hasPageText(page)) {
+      checker.issue(`${path}.mainText`, 'REQUIRED', 'selectedText or mainText is required');
+    }
+    pages.push(page);
+  });
+
+  return pages;
+}
+
+function parseHistory(checker: Checker, raw: unknown): HistoryMessage[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    checker.issue('conversationHistory', 'INVALID_TYPE', 'must be an array');
+    return undefined;
+  }
+  if (raw.length > LIMITS.historyMessages) {
+    checker.issue(
+      'conversationHistory',
+      'TOO_MANY_ITEMS',
+      `must contain at most ${LIMITS.historyMessages} messages`
+    );
+    return undefined;
+  }
+
+  const history: HistoryMessage[] = [];
+  raw.forEach((item, index) => {
+    const path = `conversationHistory[${index}]`;
+    if (!isRecord(item)) {
+      checker.issue(path, 'INVALID_TYPE', 'must be an object');
+      return;
+    }
+
+    const type = checker.oneOf(item.type, `${path}.type`, ['user', 'assistant'] as const);
+    if (typeof item.content !== 'string') {
+      checker.issue(`${path}.content`, 'INVALID_TYPE', 'must be a string');
+      return;
+    }
+    const content = checker.string(item.content, `${path}.content`, LIMITS.historyContent);
+
+    if (type && content) {
+      history.push({ type, content });
+    }
+  });
+
+  return history;
+}
+
+/** Inputs the feature requires that are missing from the request. */
+export function getMissingInputs(
+  feature: Feature,
+  inputs: { query?: string; featurePrompt?: string; pageInfo?: PageInfo }
+): FeatureInput[] {
+  const present: Record<FeatureInput, boolean> = {
+    query: !!inputs.query,
+    featurePrompt: !!inputs.featurePrompt,
+    selectedText: !!inputs.pageInfo?.selectedText,
+    mainText: !!(inputs.pageInfo?.mainText || inputs.pageInfo?.html),
+  };
+
+  const definition = featureRegistry.require(feature);
+  const missing = definition.requiredInputs.filter((input) => !present[input]);
+
+  // Translation works on whichever text there is, the selection or the page
+  if (definition.translation && !present.selectedText && !present.mainText && !missing.includes('selectedText')) {
+    missing.push('selectedText');
+  }
+  return missing;
+}
+
+function checkRequiredInputs(
+  checker: Checker,
+  feature: Feature,
+  inputs: { query?: string; featurePrompt?: string; pageInfo?: PageInfo }
+) {
+  const paths: Record<FeatureInput, string> = {
+    query: 'query',
+    featurePrompt: 'featurePrompt',
+    selectedText: 'pageInfo.selectedText',
+    mainText: 'pageInfo.mainText',
+  };
+
+  const definition = featureRegistry.require(feature);
+  for (const input of getMissingInputs(feature, inputs)) {
+    if (definition.translation && input === 'selectedText' && !definition.requiredInputs.includes(input)) {
+      checker.issue('pageInfo.mainText', 'REQUIRED', `selectedText or mainText is required for the ${feature} feature`);
+    } else {
+      checker.issue(paths[input], 'REQUIRED', `is required for the ${feature} feature`);
+    }
+  }
+}
+
+function parseSchema(checker: Checker, body: UnknownRecord) {
+  const custom = checker.record(body.schema, 'schema');
+  const preset =
+    body.schemaPreset === undefined || body.schemaPreset === null || body.schemaPreset === ''
+      ? undefined
+      : checker.oneOf(body.schemaPreset, 'schemaPreset', Object.keys(SCHEMA_PRESETS));
+  const csv = checker.boolean(body.csv, 'csv');
+
+  if (custom && preset) {
+    checker.issue('schemaPreset', 'INVALID_VALUE', 'send either schema or schemaPreset, not both');
+  }
+  if (custom) {
+    if (JSON.stringify(custom).length > LIMITS.schema) {
+      checker.issue('schema', 'TOO_LONG', `must be at most ${LIMITS.schema} characters as JSON`);
+    }
+    for (const problem of checkSchemaDefinition(custom)) {
+      checker.issue(problem.path, 'INVALID_VALUE', problem.message);
+    }
+  }
+  if (csv && !custom && !preset) {
+    checker.issue('csv', 'INVALID_VALUE', 'requires schema or schemaPreset');
+  }
+
+  return {
+    schema: custom ? (custom as JsonSchema) : preset ? SCHEMA_PRESETS[preset] : undefined,
+    schemaName: custom ? 'custom' : preset,
+    csv,
+  };
+}
+
+function parseCitations(checker: Checker, body: UnknownRecord) {
+  const citations = checker.boolean(body.citations, 'citations');
+  const unmatchedCitations =
+    body.unmatchedCitations === undefined || body.unmatchedCitations === null
+      ? undefined
+      : checker.oneOf(body.unmatchedCitations, 'unmatchedCitations', ['flag', 'remove'] as const);
+
+  return { citations, unmatchedCitations };
+}
+
+function checkCitations(checker: Checker, feature: Feature, request: Omit<ProcessRequest, 'feature'>) {
+  if (!request.citations) {
+    return;
+  }
+
+  if (!featureRegistry.require(feature).citations) {
+    const supported = featureRegistry.list().filter((definition) => definition.citations);
+    checker.issue(
+      'citations',
+      'INVALID_VALUE',
+      `is not supported by the ${feature} feature (use ${supported.map((definition) => definition.id).join(', ') || 'a feature with citations'})`
+    );
+  }
+  if (request.schema) {
+    checker.issue('citations', 'INVALID_VALUE', 'cannot be combined with schema or schemaPreset');
+  }
+  // Offsets would point into markdown the client never saw, so it could not highlight them
+  if (request.pageInfo?.html) {
+    checker.issue('citations', 'INVALID_VALUE', 'cannot be combined with pageInfo.html; send the page text as mainText');
+  }
+  if (!hasPageText(request.pageInfo)) {
+    checker.issue('citations', 'INVALID_VALUE', 'needs pageInfo.selectedText or pageInfo.mainText to quote from');
+  }
+}
+
+function checkPages(checker: Checker, feature: Feature, pages?: PageInfo[]) {
+  const multiPage = !!featureRegistry.require(feature).multiPage;
+
+  if (multiPage && (pages?.length || 0) < 2) {
+    checker.issue('pages', 'REQUIRED', `must contain at least 2 pages for the ${feature} feature`);
+  }
+  if (!multiPage && pages) {
+    const supported = featureRegistry.list().filter((definition) => definition.multiPage);
+    checker.issue(
+      'pages',
+      'INVALID_VALUE',
+      `is not supported by the ${feature} feature (use ${supported.map((definition) => definition.id).join(', ') || 'a multi-page feature'})`
+    );
+  }
+}
+
+function parseTools(checker: Checker, raw: unknown): string[] | undefined {
+  if (raw === undefined || raw === null || raw === false) {
+    return undefined;
+  }
+  if (raw === true) {
+    return toolRegistry.names();
+  }
+  if (!Array.isArray(raw) || raw.some((name) => typeof name !== 'string')) {
+    checker.issue('tools', 'INVALID_TYPE', 'must be true or an array of tool names');
+    return undefined;
+  }
+
+  const names = toolRegistry.names();
+  const unknown = raw.filter((name) => !names.includes(name));
+  if (unknown.length > 0) {
+    checker.issue('tools', 'INVALID_VALUE', `unknown tool(s) ${unknown.join(', ')}; available: ${names.join(', ')}`);
+    return undefined;
+  }
+  return raw.length > 0 ? [...new Set(raw as string[])] : undefined;
+}
+
+// The agent loop answers in prose; structured, cited and multi-page answers have their own completion loop
+function checkTools(checker: Checker, feature: Feature, request: Omit<ProcessRequest, 'feature'>) {
+  if (request.tools && (request.schema || request.citations || featureRegistry.require(feature).multiPage)) {
+    checker.issue('tools', 'INVALID_VALUE', 'cannot be combined with schema, citations or multi-page features');
+  }
+}
+
+function checkStructuredOutput(checker: Checker, feature: Feature, schema?: JsonSchema) {
+  if (schema && !featureRegistry.require(feature).structuredOutput) {
+    const supported = featureRegistry.list().filter((definition) => definition.structuredOutput);
+    checker.issue(
+      'schema',
+      'INVALID_VALUE',
+      `is not supported by the ${feature} feature (use ${supported.map((definition) => definition.id).join(', ') || 'a feature with structuredOutput'})`
+    );
+  }
+}
+
+function parseFeatureId(checker: Checker, raw: unknown, required: boolean): Feature | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    if (required) checker.issue('feature', 'REQUIRED', 'is required');
+    return undefined;
+  }
+  return checker.oneOf(raw, 'feature', featureRegistry.ids());
+}
+
+/**
+ * A transcription language: `auto` to let the model detect it, or a code
+ * passed upstream. Names and tags with a region are reduced to the bare
+ * code the transcription API expects; codes we don't know pass through.
+ */
+function parseTranscriptionLanguage(checker: Checker, value: unknown, path: string): string | undefined {
+  const raw = checker.string(value, path, LIMITS.language);
+  if (raw === undefined || raw.trim().toLowerCase() === 'auto') {
+    return raw === undefined ? undefined : 'auto';
+  }
+  return normalizeLanguage(raw)?.split('-')[0] || raw.trim();
+}
+
+/** Everything in a process body except `feature` and `query` */
+function parseRequestFields(checker: Checker, body: UnknownRecord) {
+  const featurePrompt = checker.string(body.featurePrompt, 'featurePrompt', LIMITS.featurePrompt);
+
+  const pageInfoRaw = checker.record(body.pageInfo, 'pageInfo');
+  const pageContextRaw = checker.record(body.pageContext, 'pageContext');
+
+  const selectedText = checker.string(body.selectedText, 'selectedText', LIMITS.selectedText);
+
+  let pageInfo: PageInfo | undefined;
+  if (pageInfoRaw || pageContextRaw || selectedText) {
+    const basePageInfo: PageInfo = pageInfoRaw ? parsePageInfo(checker, pageInfoRaw, 'pageInfo') : {};
+
+    pageInfo = compact({
+      ...basePageInfo,
+      ...(pageContextRaw && parsePageInfo(checker, pageContextRaw, 'pageContext')),
+      selectedText: selectedText || basePageInfo.selectedText,
+    });
+  }
+
+  return compact({
+    action: checker.string(body.action, 'action', LIMITS.action),
+    featurePrompt,
+    conversationHistory: parseHistory(checker, body.conversationHistory),
+    pageInfo,
+    pages: parsePages(checker, body.pages),
+    model: checker.string(body.model, 'model', LIMITS.model),
+    provider: checker.string(body.provider, 'provider', LIMITS.provider),
+    stream: checker.boolean(body.stream, 'stream'),
+    longDocument: checker.boolean(body.longDocument, 'longDocument'),
+    conversationId: checker.string(body.conversationId, 'conversationId', LIMITS.conversationId),
+    ...parseSchema(checker, body),
+    ...parseCitations(checker, body),
+    restorePii: checker.boolean(body.restorePii, 'restorePii'),
+    injectionMode:
+      body.injectionMode === undefined || body.injectionMode === null
+        ? undefined
+        : checker.oneOf(body.injectionMode, 'injectionMode', INJECTION_MODES),
+    responseLanguage: checker.language(body.responseLanguage, 'responseLanguage', LIMITS.language),
+    tools: parseTools(checker, body.tools),
+  });
+}
+
+/**
+ * Validates a raw `/api/process` body and normalizes it: `userQuery` wins over
+ * `query`, and `pageContext` / top-level `selectedText` are merged into `pageInfo`.
+ * Throws a ValidationError listing every problem found.
+ */
+export function parseProcessRequest(body: unknown): ProcessRequest {
+  const checker = new Checker();
+
+  if (!isRecord(body)) {
+    checker.issue('', 'INVALID_TYPE', 'request body must be a JSON object');
+    throw new ValidationError(checker.issues);
+  }
+
+  const feature = parseFeatureId(checker, body.feature, true);
+
+  // Use userQuery if available, otherwise fall back to query
+  const queryPath = body.userQuery ? 'userQuery' : 'query';
+  const query = checker.string(body.userQuery || body.query, queryPath, LIMITS.query);
+  const fields = parseRequestFields(checker, body);
+
+  if (feature) {
+    checkRequiredInputs(checker, feature, { ...fields, query });
+    checkStructuredOutput(checker, feature, fields.schema);
+    checkCitations(checker, feature, fields);
+    checkPages(checker, feature, fields.pages);
+    checkTools(checker, feature, fields);
+  }
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return compact({ ...fields, feature: feature as Feature, query });
+}
+
+export interface VoiceRequest {
+  /** Set when the caller picked the feature instead of leaving it to the spoken command */
+  feature?: Feature;
+  /** The process request, minus the feature and query that come from the audio */
+  request: Omit<ProcessRequest, 'feature' | 'query'>;
+  transcription: Pick<TranscribeOptions, 'model' | 'language' | 'prompt'>;
+}
+
+/**
+ * Validates the non-audio part of a `/api/voice` body. It takes the same
+ * fields as `/api/process`, except that `query` is the transcript and
+ * `feature` is optional. `model` is the chat model; the transcription
+ * model is `transcriptionModel`.
+ */
+export function parseVoiceRequest(body: unknown): VoiceRequest {
+  const checker = new Checker();
+
+  if (!isRecord(body)) {
+    checker.issue('', 'INVALID_TYPE', 'request body must be a JSON object');
+    throw new ValidationError(checker.issues);
+  }
+
+  const feature = parseFeatureId(checker, body.feature, false);
+  const request = parseRequestFields(checker, body);
+  const transcription = compact({
+    model: checker.string(body.transcriptionModel, 'transcriptionModel', LIMITS.model),
+    language: parseTranscriptionLanguage(checker, body.language, 'language'),
+    prompt: checker.string(body.transcriptionPrompt, 'transcriptionPrompt', LIMITS.transcriptionPrompt),
+  });
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return { feature, request, transcription };
+}
+
+/** Throws if a request assembled server-side lacks what its feature needs. */
+export function assertRequiredInputs(request: ProcessRequest) {
+  const checker = new Checker();
+  checkRequiredInputs(checker, request.feature, request);
+  checkStructuredOutput(checker, request.feature, request.schema);
+  checkCitations(checker, request.feature, request);
+  checkPages(checker, request.feature, request.pages);
+  checkTools(checker, request.feature, request);
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+}
+
+/**
+ * Reads the main content out of raw page HTML. The extracted text and its
+ * word count replace whatever the caller scraped; a title or content type
+ * the caller sent is kept. The HTML itself goes no further.
+ */
+function applyHtmlExtraction({ html, ...pageInfo }: PageInfo): PageInfo {
+  if (!html) return pageInfo;
+
+  const { text, ...extraction } = extractReadableContent(html, { url: pageInfo.url, maxLength: LIMITS.mainText });
+  return compact({
+    ...pageInfo,
+    title: pageInfo.title || extraction.title,
+    contentType: pageInfo.contentType || extraction.contentType,
+    wordCount: text ? extraction.wordCount : pageInfo.wordCount,
+    mainText: text || pageInfo.mainText,
+    extraction,
+  });
+}
+
+/**
+ * Replaces the `html` of the request's pages with the content read from
+ * it, then checks again that the feature still has the page text it needs.
+ * Parsing only checks the HTML's length, so this runs when the request is
+ * about to be processed and a rejected request never pays for it.
+ */
+export function readPageHtml(request: ProcessRequest): ProcessRequest {
+  if (!request.pageInfo?.html && !request.pages?.some((page) => page.html)) {
+    return request;
+  }
+
+  const read = compact({
+    ...request,
+    pageInfo: request.pageInfo && applyHtmlExtraction(request.pageInfo),
+    pages: request.pages?.map((page) => applyHtmlExtraction(page)),
+  });
+
+  const checker = new Checker();
+  checkRequiredInputs(checker, read.feature, read);
+  checkCitations(checker, read.feature, read);
+  read.pages?.forEach((page, index) => {
+    if (!hasPageText(page)) {
+      checker.issue(`pages[${index}].mainText`, 'REQUIRED', 'selectedText or mainText is required');
+    }
+  });
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+  return read;
+}
+
+/** Validates the `{ title }` body of `POST /api/conversations` and `PATCH /api/conversations/:id`. */
+export function parseConversationInput(body: unknown, options: { requireTitle: true }): { title: string };
+export function parseConversationInput(body: unknown, options: { requireTitle: false }): { title?: string };
+export function parseConversationInput(
+  body: unknown,
+  { requireTitle }: { requireTitle: boolean }
+): { title?: string } {
+  const checker = new Checker();
+  const raw = isRecord(body) ? body : {};
+
+  const title = checker.string(raw.title, 'title', LIMITS.conversationTitle);
+  if (requireTitle && !title?.trim()) {
+    checker.issue('title', 'REQUIRED', 'is required');
+  }
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return { title };
+}
+
+export interface TranscribeOptions {
+  model?: string;
+  language?: string;
+  temperature?: number;
+  provider?: string;
+  prompt?: string;
+  format?: TranscriptFormat;
+}
+
+/**
+ * Validates the transcription options shared by the multipart and JSON
+ * forms of `/api/transcribe`. Form fields arrive as strings, so a numeric
+ * string is accepted for `temperature`. `response_format` is accepted as
+ * an alias of `format`, matching the upstream API.
+ */
+export function parseTranscribeOptions(raw: Record<string, unknown>): TranscribeOptions {
+  const checker = new Checker();
+
+  let temperature: number | undefined;
+  if (raw.temperature !== undefined && raw.temperature !== null && raw.temperature !== '') {
+    temperature = typeof raw.temperature === 'string' ? Number(raw.temperature) : (raw.temperature as number);
+    if (typeof temperature !== 'number' || !(temperature >= 0 && temperature <= 1)) {
+      checker.issue('temperature', 'INVALID_VALUE', 'must be a number between 0 and 1');
+      temperature = undefined;
+    }
+  }
+
+  const formatPath = ['format', 'response_format'].find(
+    (key) => raw[key] !== undefined && raw[key] !== null && raw[key] !== ''
+  );
+
+  const options = compact({
+    model: checker.string(raw.model, 'model', LIMITS.model),
+    language: parseTranscriptionLanguage(checker, raw.language, 'language'),
+    provider: checker.string(raw.provider, 'provider', LIMITS.provider),
+    prompt: checker.string(raw.prompt, 'prompt', LIMITS.transcriptionPrompt),
+    temperature,
+    format: formatPath ? checker.oneOf(raw[formatPath], formatPath, TRANSCRIPT_FORMATS) : undefined,
+  });
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return options;
+}
+
+/** Validates the JSON form of `/api/transcribe`: `{ audio, mimeType, ...options }`. */
+export function parseTranscribeJson(body: unknown) {
+  const checker = new Checker();
+
+  if (!isRecord(body)) {
+    checker.issue('', 'INVALID_TYPE', 'request body must be a JSON object');
+    throw new ValidationError(checker.issues);
+  }
+
+  if (typeof body.audio !== 'string' || !body.audio) {
+    checker.issue('audio', 'REQUIRED', 'must be a base64 string or data: URL');
+  }
+  const mimeType = checker.string(body.mimeType, 'mimeType', LIMITS.mimeType);
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return { audio: body.audio as string, mimeType, options: parseTranscribeOptions(body) };
+}
+
+export interface SpeakRequest {
+  text?: string;
+  responseId?: string;
+  conversationId?: string;
+  voice?: string;
+  speed?: number;
+  format: SpeechFormat;
+  model?: string;
+  provider?: string;
+  stream?: boolean;
+}
+
+/**
+ * Validates a `/api/speak` body. Exactly one of `text` and `responseId` is
+ * required; `conversationId` lets an older answer be found in its thread.
+ */
+export function parseSpeakRequest(body: unknown): SpeakRequest {
+  const checker = new Checker();
+
+  if (!isRecord(body)) {
+    checker.issue('', 'INVALID_TYPE', 'request body must be a JSON object');
+    throw new ValidationError(checker.issues);
+  }
+
+  const text = checker.string(body.text, 'text', LIMITS.speechText);
+  const responseId = checker.string(body.responseId, 'responseId', LIMITS.responseId);
+  if (!text && !responseId && !checker.issues.length) {
+    checker.issue('text', 'REQUIRED', 'text or responseId is required');
+  } else if (text && responseId) {
+    checker.issue('responseId', 'INVALID_VALUE', 'send either text or responseId, not both');
+  }
+
+  const speed = checker.number(body.speed, 'speed');
+  if (speed !== undefined && !(speed >= 0.25 && speed <= 4)) {
+    checker.issue('speed', 'INVALID_VALUE', 'must be between 0.25 and 4');
+  }
+
+  const request: SpeakRequest = compact({
+    text,
+    responseId,
+    conversationId: checker.string(body.conversationId, 'conversationId', LIMITS.conversationId),
+    voice: checker.string(body.voice, 'voice', LIMITS.voice),
+    speed,
+    format: body.format === undefined ? 'mp3' : (checker.oneOf(body.format, 'format', SPEECH_FORMATS) as SpeechFormat),
+    model: checker.string(body.model, 'model', LIMITS.model),
+    provider: checker.string(body.provider, 'provider', LIMITS.provider),
+    stream: checker.boolean(body.stream, 'stream'),
+  });
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return request;
+}
+
+export interface TokenRequest {
+  /** Admin only: the key to issue for; API key callers always get a token for their own key */
+  keyId?: string;
+  /** Lifetime in seconds; defaults to AUTH_TOKEN_TTL */
+  ttl?: number;
+}
+
+export function parseApiKeyInput(body: unknown): { name: string } {
+  const checker = new Checker();
+  const raw = isRecord(body) ? body : {};
+
+  const name = checker.string(raw.name, 'name', LIMITS.apiKeyName);
+  if (!name?.trim()) {
+    checker.issue('name', 'REQUIRED', 'is required');
+  }
+
+  if (checker.issues.length > 0 || !name) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return { name };
+}
+
+export function parseTokenRequest(body: unknown): TokenRequest {
+  const checker = new Checker();
+  const raw = isRecord(body) ? body : {};
+
+  const ttl = checker.number(raw.ttl, 'ttl');
+  if (ttl !== undefined && !(Number.isInteger(ttl) && ttl > 0)) {
+    checker.issue('ttl', 'INVALID_VALUE', 'must be a positive number of seconds');
+  }
+
+  const request: TokenRequest = compact({
+    keyId: checker.string(raw.keyId, 'keyId', LIMITS.apiKeyId),
+    ttl,
+  });
+
+  if (checker.issues.length > 0) {
+    throw new ValidationError(checker.issues);
+  }
+
+  return request;
+}
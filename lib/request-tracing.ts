@@ -0,0 +1,49 @@
+// lib/request-tracing.ts
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { CLIENT_ID_HEADER } from './auth';
+import { createLogger, REQUEST_ID_HEADER, runWithRequestContext } from './logger';
+import { metrics } from './metrics';
+
+const log = createLogger('http');
+
+// Client-supplied ids are kept when they look like ids, so traces can span services
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+/** The caller's `X-Request-Id` if it looks like one, else a fresh UUID. */
+export function resolveRequestId(headers: Headers): string {
+  const supplied = headers.get(REQUEST_ID_HEADER);
+  return supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : crypto.randomUUID();
+}
+
+/**
+ * Wraps a route handler so everything it logs carries the request id set by
+ * the proxy, and records its status and latency for `/api/metrics`. For
+ * streamed responses the latency is the time until the stream starts.
+ */
+export function withRequestTracing<A extends unknown[]>(
+  route: string,
+  handler: (request: NextRequest, ...rest: A) => Promise<Response>
+) {
+  return async (request: NextRequest, ...rest: A): Promise<Response> => {
+    const context = {
+      requestId: resolveRequestId(request.headers),
+      route,
+      clientId: request.headers.get(CLIENT_ID_HEADER) || undefined,
+    };
+
+    return runWithRequestContext(context, async () => {
+      const started = performance.now();
+      let status = 500;
+      try {
+        const response = await handler(request, ...rest);
+        status = response.status;
+        return response;
+      } finally {
+        const durationMs = Math.round(performance.now() - started);
+        metrics.recordRequest(`${request.method} ${route}`, status, durationMs);
+        log.info('Request completed', { method: request.method, route, status, durationMs, clientId: context.clientId });
+      }
+    });
+  };
+}
@@ -0,0 +1,102 @@
+// lib/response-cache.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { hashCacheKey, ResponseCache, wantsCacheBypass } from './response-cache';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('hashCacheKey', () => {
+  it('depends on every part and where it falls', () => {
+    const key = hashCacheKey('chat', 'groq', { role: 'user', content: 'Hi' });
+
+    expect(hashCacheKey('chat', 'groq', { role: 'user', content: 'Hi' })).toBe(key);
+    expect(hashCacheKey('chat', 'groq', { role: 'user', content: 'Hi!' })).not.toBe(key);
+    expect(hashCacheKey('ab', 'c')).not.toBe(hashCacheKey('a', 'bc'));
+    expect(hashCacheKey(undefined)).not.toBe(hashCacheKey(null));
+  });
+
+  it('hashes buffers by their bytes', () => {
+    expect(hashCacheKey(Buffer.from('audio'))).toBe(hashCacheKey(Buffer.from('audio')));
+    expect(hashCacheKey(Buffer.from('audio'))).not.toBe(hashCacheKey(Buffer.from('audi0')));
+  });
+});
+
+describe('wantsCacheBypass', () => {
+  it.each([
+    [{ 'x-cache-bypass': '1' }, true],
+    [{ 'x-cache-bypass': 'false' }, false],
+    [{ 'cache-control': 'max-age=0, no-cache' }, true],
+    [{}, false],
+  ])('reads %j as %s', (headers, expected) => {
+    expect(wantsCacheBypass(new Headers(headers))).toBe(expected);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('computes once, then reports hits with their age', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const cache = new ResponseCache();
+    const compute = vi.fn(async () => 'answer');
+
+    expect(await cache.remember('key', compute)).toEqual({ value: 'answer', cache: { status: 'miss' } });
+    vi.setSystemTime(5000);
+    expect(await cache.remember('key', compute)).toEqual({ value: 'answer', cache: { status: 'hit', age: 5 } });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one computation between concurrent identical calls', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (value: string) => void;
+    const compute = vi.fn(() => new Promise<string>((done) => (resolve = done)));
+
+    const first = cache.remember('key', compute);
+    const second = cache.remember('key', compute);
+    resolve('answer');
+
+    expect(await first).toEqual({ value: 'answer', cache: { status: 'miss' } });
+    expect(await second).toEqual({ value: 'answer', cache: { status: 'hit', age: 0 } });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache a failed computation', async () => {
+    const cache = new ResponseCache();
+
+    await expect(cache.remember('key', async () => Promise.reject(new Error('upstream down')))).rejects.toThrow('upstream down');
+    expect(await cache.remember('key', async () => 'answer')).toEqual({ value: 'answer', cache: { status: 'miss' } });
+  });
+
+  it('recomputes on bypass and stores the fresh answer', async () => {
+    const cache = new ResponseCache();
+    await cache.remember('key', async () => 'old');
+
+    expect(await cache.remember('key', async () => 'new', { bypass: true })).toEqual({ value: 'new', cache: { status: 'bypass' } });
+    expect(cache.get('key')?.value).toBe('new');
+  });
+
+  it('expires entries after the TTL and evicts the least recently used', () => {
+    vi.stubEnv('RESPONSE_CACHE_TTL', '10');
+    vi.stubEnv('RESPONSE_CACHE_SIZE', '2');
+    vi.useFakeTimers({ now: 0 });
+    const cache = new ResponseCache();
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect([cache.get('a')?.value, cache.get('b')?.value, cache.get('c')?.value]).toEqual([1, undefined, 3]);
+
+    vi.setSystemTime(10001);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('skips answers sampled above the temperature limit', () => {
+    const cache = new ResponseCache();
+
+    expect(cache.isCacheable(0.2)).toBe(true);
+    expect(cache.isCacheable(0.9)).toBe(false);
+    vi.stubEnv('RESPONSE_CACHE_TTL', '0');
+    expect(cache.isCacheable(0)).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+// lib/response-cache.ts
+import crypto from 'crypto';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_TEMPERATURE = 0.5;
+
+/** Request header that skips cached answers; the fresh answer still replaces the cached one. */
+export const CACHE_BYPASS_HEADER = 'x-cache-bypass';
+
+/**
+ * `hit`: served from the cache; `miss`: computed and stored; `bypass`: the
+ * caller asked for a fresh answer; `skip`: not cacheable (cache disabled, or
+ * the temperature is too high for answers to be worth repeating).
+ */
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'skip';
+
+export interface CacheInfo {
+  status: CacheStatus;
+  /** Seconds since the answer was cached, for hits */
+  age?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/** SHA-256 over the JSON of every part, so key order within the call is all that matters. */
+export function hashCacheKey(...parts: unknown[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const part of parts) {
+    hash.update(Buffer.isBuffer(part) ? part : JSON.stringify(part) ?? 'undefined');
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/** `X-Cache-Bypass: 1`, or `Cache-Control: no-cache`, asks for a fresh answer. */
+export function wantsCacheBypass(headers: Headers): boolean {
+  const bypass = headers.get(CACHE_BYPASS_HEADER);
+  return (!!bypass && bypass !== '0' && bypass !== 'false') || /\bno-cache\b/i.test(headers.get('cache-control') || '');
+}
+
+/**
+ * In-memory LRU cache for upstream results: chat completions keyed on the
+ * final prompt, transcriptions keyed on the audio. Entries live for
+ * `RESPONSE_CACHE_TTL` seconds (default 3600, `0` disables caching) and at
+ * most `RESPONSE_CACHE_SIZE` are kept (default 500). Identical requests
+ * that arrive while the first is still running share its result.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  private getTtlMs(): number {
+    const configured = parseInt(process.env.RESPONSE_CACHE_TTL || '', 10);
+    return (configured >= 0 ? configured : DEFAULT_TTL_SECONDS) * 1000;
+  }
+
+  private getMaxEntries(): number {
+    const configured = parseInt(process.env.RESPONSE_CACHE_SIZE || '', 10);
+    return configured >= 0 ? configured : DEFAULT_MAX_ENTRIES;
+  }
+
+  /** Answers above `RESPONSE_CACHE_MAX_TEMPERATURE` (default 0.5) are meant to vary, so they are never cached. */
+  isCacheable(temperature = 0): boolean {
+    const configured = parseFloat(process.env.RESPONSE_CACHE_MAX_TEMPERATURE || '');
+    const maxTemperature = configured >= 0 ? configured : DEFAULT_MAX_TEMPERATURE;
+    return this.getTtlMs() > 0 && this.getMaxEntries() > 0 && temperature <= maxTemperature;
+  }
+
+  get<T>(key: string): { value: T; age: number } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    const age = Date.now() - entry.storedAt;
+    if (age > this.getTtlMs()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the Map's insertion order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: entry.value as T, age: Math.floor(age / 1000) };
+  }
+
+  set(key: string, value: unknown) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+
+    const maxEntries = this.getMaxEntries();
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Returns the cached value for `key`, or runs `compute` and caches its
+   * result. Concurrent calls with the same key wait for the same computation
+   * and report a hit.
+   */
+  async remember<T>(
+    key: string,
+    compute: () => Promise<T>,
+    { bypass = false } = {}
+  ): Promise<{ value: T; cache: CacheInfo }> {
+    if (!bypass) {
+      const cached = this.get<T>(key);
+      if (cached) {
+        return { value: cached.value, cache: { status: 'hit', age: cached.age } };
+      }
+
+      const pending = this.inflight.get(key) as Promise<T> | undefined;
+      if (pending) {
+        return { value: await pending, cache: { status: 'hit', age: 0 } };
+      }
+    }
+
+    const promise = compute();
+    this.inflight.set(key, promise);
+    try {
+      const value = await promise;
+      this.set(key, value);
+      return { value, cache: { status: bypass ? 'bypass' : 'miss' } };
+    } finally {
+      if (this.inflight.get(key) === promise) this.inflight.delete(key);
+    }
+  }
+}
+
+// Export a singleton instance
+export const responseCache = new ResponseCache();
@@ -0,0 +1,53 @@
+// lib/response-store.ts
+
+const DEFAULT_MAX_ENTRIES = 200;
+const TTL_MS = 60 * 60 * 1000;
+
+export interface StoredResponse {
+  id: string;
+  /** The client the answer was generated for; only it can look the answer up */
+  clientId: string;
+  text: string;
+  feature: string;
+  model: string;
+  createdAt: number;
+}
+
+/**
+ * Keeps recent `/api/process` answers in memory so they can be referred to
+ * by `responseId` (e.g. to read one aloud with `/api/speak`) without the
+ * extension sending the text back. Answers in a server-side conversation
+ * are also reachable through the conversation store after they expire here.
+ */
+export class ResponseStore {
+  private entries = new Map<string, StoredResponse>();
+
+  private getMaxEntries(): number {
+    const configured = parseInt(process.env.RESPONSE_STORE_SIZE || '', 10);
+    return configured >= 0 ? configured : DEFAULT_MAX_ENTRIES;
+  }
+
+  save(entry: Omit<StoredResponse, 'createdAt'>) {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, { ...entry, createdAt: Date.now() });
+
+    // Maps iterate in insertion order, so the first keys are the oldest
+    const maxEntries = this.getMaxEntries();
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(id);
+    }
+  }
+
+  get(id: string, clientId: string): StoredResponse | undefined {
+    const entry = this.entries.get(id);
+    if (entry && Date.now() - entry.createdAt > TTL_MS) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return entry?.clientId === clientId ? entry : undefined;
+  }
+}
+
+// Export a singleton instance
+export const responseStore = new ResponseStore();
@@ -0,0 +1,43 @@
+// lib/speech-text.test.ts
+import { describe, expect, it } from 'vitest';
+import { splitSpeechChunks, stripMarkdown } from './speech-text';
+
+describe('stripMarkdown', () => {
+  it('reads headings, links and emphasis as plain sentences', () => {
+    expect(stripMarkdown('## Release notes ##\nSee [the docs](https://example.com/docs) for **more**.')).toBe(
+      'Release notes.\nSee the docs for more.'
+    );
+  });
+
+  it('drops table separator rows and joins cells with commas', () => {
+    expect(stripMarkdown('| Plan | Price |\n| :--- | ---: |\n| Pro | $10 |')).toBe('Plan, Price.\n\nPro, $10.');
+    expect(stripMarkdown('Plan | Price\n---|---')).toBe('Plan | Price');
+  });
+
+  it('announces code blocks instead of reading them', () => {
+    expect(stripMarkdown('Run this:\n```sh\nnpm test\n```')).toBe('Run this:\n\n(Code example omitted.)');
+  });
+
+  it.each([
+    ['newlines', '\n'.repeat(20000)],
+    ['spaces', ' '.repeat(20000)],
+    ['spaces and newlines', ' \n'.repeat(10000)],
+    ['hashes', `# ${'#'.repeat(20000)}x`],
+    ['open brackets', '['.repeat(20000)],
+    ['open angle brackets', '<'.repeat(20000)],
+  ])('handles 20 000 characters of %s in linear time', (_, text) => {
+    const started = performance.now();
+    stripMarkdown(text);
+    expect(performance.now() - started).toBeLessThan(200);
+  });
+});
+
+describe('splitSpeechChunks', () => {
+  it('keeps sentences whole and chunks under the limit', () => {
+    expect(splitSpeechChunks('One. Two three. Four five six.', 16)).toEqual(['One. Two three.', 'Four five six.']);
+  });
+
+  it('splits a sentence longer than the limit at a space', () => {
+    expect(splitSpeechChunks('alpha beta gamma', 11)).toEqual(['alpha beta', 'gamma']);
+  });
+});
@@ -0,0 +1,100 @@
+// lib/speech-text.ts
+import type { SpeechFormat } from './providers';
+
+export const SPEECH_FORMATS: readonly SpeechFormat[] = ['mp3', 'wav', 'ogg', 'flac'];
+
+export const SPEECH_MIME_TYPES: Record<SpeechFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+};
+
+const DEFAULT_CHUNK_CHARS = 600;
+
+export function getSpeechChunkChars(): number {
+  const configured = parseInt(process.env.TTS_CHUNK_CHARS || '', 10);
+  return configured > 0 ? configured : DEFAULT_CHUNK_CHARS;
+}
+
+/** `Title ##` → `Title`, without a regex that rescans long runs of `#` or spaces */
+function stripClosingHashes(heading: string): string {
+  let end = heading.trimEnd().length;
+  while (end > 0 && heading[end - 1] === '#') end--;
+  return heading.slice(0, end).trim();
+}
+
+/**
+ * Turns model output into text that reads naturally when spoken: markup
+ * characters are dropped, links keep their label, code blocks are
+ * announced rather than read out, and table cells are separated by commas.
+ * Line patterns only match spaces and tabs, never newlines, so a long run
+ * of blank lines is scanned once rather than from every line start.
+ */
+export function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      .replace(/\r\n?/g, '\n')
+      .replace(/```[\s\S]*?(```|$)/g, '\n(Code example omitted.)\n')
+      .replace(/<[^<>\n]+>/g, '')
+      // Images disappear, links keep their label
+      .replace(/!\[[^[\]]*\]\([^()]*\)/g, '')
+      .replace(/\[([^[\]]+)\]\([^()]*\)/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      // Headings become sentences so the voice pauses after them
+      .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*)$/gm, (_, line: string) => {
+        const heading = stripClosingHashes(line);
+        return /[.!?:]$/.test(heading) ? heading : `${heading}.`;
+      })
+      .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+      .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+      .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+      // Table separator rows go; cells read as a comma separated list
+      .replace(/^[ \t]*(?:\|[ \t]*)?(?::?-+:?[ \t]*\|[ \t]*)+(?::?-+:?[ \t]*)?$/gm, '')
+      .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => `${cells.split('|').map((cell) => cell.trim()).join(', ')}.`)
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
+
+/**
+ * Splits text into chunks of whole sentences, each at most `maxChars` long
+ * where possible, so synthesis can start on the first sentences while the
+ * rest are still queued. A single sentence longer than the limit is split
+ * at the last space before it.
+ */
+export function splitSpeechChunks(text: string, maxChars = getSpeechChunkChars()): string[] {
+  const sentences = text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string) => {
+    if (current && current.length + 1 + piece.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  };
+
+  for (let sentence of sentences) {
+    while (sentence.length > maxChars) {
+      const cut = sentence.lastIndexOf(' ', maxChars);
+      const end = cut > 0 ? cut : maxChars;
+      push(sentence.slice(0, end).trim());
+      sentence = sentence.slice(end).trim();
+    }
+    if (sentence) push(sentence);
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
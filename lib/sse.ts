@@ -0,0 +1,63 @@
+// lib/sse.ts
+import { AsyncResource } from 'async_hooks';
+import { NextRequest } from 'next/server';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * A client asks for a streamed response with `?stream=1` (or `true`),
+ * or by sending `Accept: text/event-stream`.
+ */
+export function wantsEventStream(request: NextRequest): boolean {
+  const streamParam = request.nextUrl.searchParams.get('stream');
+  if (streamParam === '1' || streamParam === 'true') {
+    return true;
+  }
+
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Turns an async iterable of `{ type, ...payload }` events into an SSE body.
+ * If the iterable throws partway through, an `error` event is sent before
+ * the stream is closed so the client never waits on a half-open connection.
+ * Events are pulled in the caller's async context, so logs written while
+ * producing them keep the request id.
+ */
+export function createEventStream<T extends { type: string }>(
+  events: AsyncIterable<T>,
+  onError: (error: unknown) => Record<string, unknown>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    pull: AsyncResource.bind(async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        const { type, ...payload } = value;
+        controller.enqueue(encoder.encode(formatSSE(type, payload)));
+      } catch (error) {
+        controller.enqueue(encoder.encode(formatSSE('error', onError(error))));
+        controller.close();
+      }
+    }),
+    cancel: AsyncResource.bind(async () => {
+      await iterator.return?.();
+    }),
+  });
+}
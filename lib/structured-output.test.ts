@@ -0,0 +1,49 @@
+// lib/structured-output.test.ts
+import { describe, expect, it } from 'vitest';
+import { describeViolations, parseJsonOutput, toCsv } from './structured-output';
+
+describe('parseJsonOutput', () => {
+  it('parses clean JSON as is', () => {
+    expect(parseJsonOutput(' {"a": 1} ')).toEqual({ value: { a: 1 }, repaired: false });
+  });
+
+  it.each([
+    ['a code fence', '```json\n{"a": [1, 2]}\n```'],
+    ['text around the JSON', 'Here you go: {"a": [1, 2]} Hope that helps.'],
+    ['trailing commas', '{"a": [1, 2,],}'],
+  ])('repairs %s', (_, text) => {
+    expect(parseJsonOutput(text)).toEqual({ value: { a: [1, 2] }, repaired: true });
+  });
+
+  it('gives up on text without JSON', () => {
+    expect(parseJsonOutput('Sorry, I cannot help with that.')).toEqual({ error: 'the reply is not parseable JSON' });
+  });
+});
+
+describe('describeViolations', () => {
+  it('lists the first ten and counts the rest', () => {
+    const violations = Array.from({ length: 12 }, (_, index) => ({ path: `/${index}`, message: 'is required' }));
+    const description = describeViolations(violations);
+
+    expect(description.startsWith('/0 is required; /1 is required')).toBe(true);
+    expect(description.endsWith('/9 is required; and 2 more')).toBe(true);
+  });
+});
+
+describe('toCsv', () => {
+  it('renders columns and rows, quoting cells that need it', () => {
+    expect(toCsv({ columns: ['name', 'note'], rows: [['Ada', 'says "hi", twice']] })).toBe(
+      'name,note\r\nAda,"says ""hi"", twice"\r\n'
+    );
+  });
+
+  it('flattens a list of records under a single array property', () => {
+    expect(toCsv({ contacts: [{ name: 'Ada', address: { city: 'London' }, tags: ['a', 'b'] }, { name: 'Bo' }] })).toBe(
+      'name,address.city,tags\r\nAda,London,a; b\r\nBo,,\r\n'
+    );
+  });
+
+  it('returns undefined for data that is not tabular', () => {
+    expect(toCsv({ summary: 'text' })).toBeUndefined();
+  });
+});
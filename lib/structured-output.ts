@@ -0,0 +1,194 @@
+// lib/structured-output.ts
+import type { JsonSchema, SchemaViolation } from './json-schema';
+
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+
+/** Named schemas callers can ask for with `schemaPreset` instead of sending their own. */
+export const SCHEMA_PRESETS: Record<string, JsonSchema> = {
+  contacts: {
+    type: 'object',
+    properties: {
+      contacts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            title: nullableString,
+            organization: nullableString,
+            email: nullableString,
+            phone: nullableString,
+            address: nullableString,
+            url: nullableString,
+          },
+          required: ['name'],
+        },
+      },
+    },
+    required: ['contacts'],
+  },
+  'product-specs': {
+    type: 'object',
+    properties: {
+      products: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            brand: nullableString,
+            model: nullableString,
+            price: { type: ['number', 'null'] },
+            currency: { ...nullableString, description: 'ISO 4217 code, e.g. USD' },
+            specs: {
+              type: 'object',
+              description: 'Specification name to value, e.g. {"Weight": "1.2 kg"}',
+              additionalProperties: { type: 'string' },
+            },
+            url: nullableString,
+          },
+          required: ['name'],
+        },
+      },
+    },
+    required: ['products'],
+  },
+  events: {
+    type: 'object',
+    properties: {
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            start: { ...nullableString, description: 'ISO 8601 date or date-time' },
+            end: { ...nullableString, description: 'ISO 8601 date or date-time' },
+            location: nullableString,
+            description: nullableString,
+            url: nullableString,
+          },
+          required: ['title', 'start'],
+        },
+      },
+    },
+    required: ['events'],
+  },
+  'table-rows': {
+    type: 'object',
+    properties: {
+      columns: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      rows: {
+        type: 'array',
+        items: { type: 'array', items: { type: ['string', 'number', 'boolean', 'null'] } },
+      },
+    },
+    required: ['columns', 'rows'],
+  },
+};
+
+export function buildSchemaNote(schema: JsonSchema): string {
+  return [
+    'OUTPUT FORMAT: Respond with a single JSON value that conforms to the JSON Schema below.',
+    'Output only the JSON: no markdown, no code fences, no commentary. This overrides any formatting guidance above.',
+    'Use null for values the content does not provide; never invent data.',
+    `SCHEMA:\n${JSON.stringify(schema)}`,
+  ].join('\n');
+}
+
+export function buildRepairPrompt(problem: string): string {
+  return [
+    `Your previous reply was not valid for the schema: ${problem}`,
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+}
+
+export function describeViolations(violations: SchemaViolation[]): string {
+  const shown = violations.slice(0, 10).map((violation) => `${violation.path} ${violation.message}`);
+  const more = violations.length > shown.length ? `; and ${violations.length - shown.length} more` : '';
+  return `${shown.join('; ')}${more}`;
+}
+
+/**
+ * Pulls a JSON value out of a model reply. Tolerates code fences, text
+ * around the JSON and trailing commas, which are the usual ways models
+ * break otherwise-correct output.
+ */
+export function parseJsonOutput(text: string): { value: unknown; repaired: boolean } | { error: string } {
+  const trimmed = text.trim();
+  try {
+    return { value: JSON.parse(trimmed), repaired: false };
+  } catch {
+    // fall through to the lenient attempts
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  const candidates = [fenced, start >= 0 && end > start ? trimmed.slice(start, end + 1) : undefined];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return { value: JSON.parse(attempt), repaired: true };
+      } catch {
+        // try the next candidate
+      }
+    }
+  }
+
+  return { error: 'the reply is not parseable JSON' };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Nested objects become `parent.child` columns; arrays are joined with "; ". */
+function flattenRow(row: Record<string, unknown>, prefix = '', into: Record<string, unknown> = {}) {
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenRow(value, column, into);
+    } else if (Array.isArray(value)) {
+      into[column] = value.map((item) => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item))).join('; ');
+    } else {
+      into[column] = value;
+    }
+  }
+  return into;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders tabular data as CSV. Understands `{ columns, rows }` (the
+ * table-rows preset), an array of objects, or an object whose only array
+ * property is a list of objects (`{ contacts: [...] }`). Returns undefined
+ * for anything else.
+ */
+export function toCsv(data: unknown): string | undefined {
+  let header: string[];
+  let rows: unknown[][];
+
+  if (isPlainObject(data) && Array.isArray(data.columns) && Array.isArray(data.rows)) {
+    header = data.columns.map(String);
+    rows = data.rows.map((row) => (Array.isArray(row) ? row : [row]));
+  } else {
+    const arrays = isPlainObject(data) ? Object.values(data).filter(Array.isArray) : [];
+    const records = Array.isArray(data) ? data : arrays.length === 1 ? arrays[0] : undefined;
+    if (!records || !records.every(isPlainObject)) {
+      return undefined;
+    }
+
+    const flattened = records.map((record) => flattenRow(record));
+    header = [...new Set(flattened.flatMap((record) => Object.keys(record)))];
+    rows = flattened.map((record) => header.map((column) => record[column]));
+  }
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n').concat('\r\n');
+}
@@ -0,0 +1,62 @@
+// lib/transcript-format.test.ts
+import { describe, expect, it } from 'vitest';
+import { formatSrt, formatVtt, shiftTranscript } from './transcript-format';
+
+const SEGMENTS = [
+  { id: 0, start: 0, end: 2.5, text: ' Hello there. ' },
+  { id: 1, start: 3661.2, end: 3662.0004, text: 'First line\n\nsecond --> line' },
+];
+
+describe('formatSrt', () => {
+  it('numbers cues and uses comma timestamps', () => {
+    expect(formatSrt(SEGMENTS)).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nHello there.\n\n' +
+        '2\n01:01:01,200 --> 01:01:02,000\nFirst line\nsecond --> line\n'
+    );
+  });
+});
+
+describe('formatVtt', () => {
+  it('starts with the header, uses dot timestamps and escapes cue arrows', () => {
+    expect(formatVtt(SEGMENTS)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nHello there.\n\n' +
+        '01:01:01.200 --> 01:01:02.000\nFirst line\nsecond -> line\n'
+    );
+  });
+
+  it('writes only the header without segments', () => {
+    expect(formatVtt([])).toBe('WEBVTT\n');
+  });
+});
+
+describe('shiftTranscript', () => {
+  it('moves segments and words by the chunk start and continues ids', () => {
+    const shifted = shiftTranscript(
+      {
+        text: 'Second chunk.',
+        segments: [
+          { id: 0, start: 0.1, end: 1.2, text: ' Second ' },
+          { id: 1, start: 1.2, end: 1.3, text: '  ' },
+          { id: 2, start: 1.3, end: 2.7, text: 'chunk.' },
+        ],
+        words: [{ word: ' Second', start: 0.1, end: 0.7 }],
+      },
+      600.1,
+      900,
+      4
+    );
+
+    expect(shifted.segments).toEqual([
+      { id: 4, start: 600.2, end: 601.3, text: 'Second' },
+      { id: 5, start: 601.4, end: 602.8, text: 'chunk.' },
+    ]);
+    expect(shifted.words).toEqual([{ word: 'Second', start: 600.2, end: 600.8 }]);
+  });
+
+  it('spans the whole chunk when the provider returned no segments', () => {
+    expect(shiftTranscript({ text: 'Plain text.' }, 600, 750.5, 0)).toEqual({
+      segments: [{ id: 0, start: 600, end: 750.5, text: 'Plain text.' }],
+      words: [],
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// lib/transcript-format.ts
+import type { TranscriptionResult, TranscriptSegment, TranscriptWord } from './providers';
+
+export const TRANSCRIPT_FORMATS = ['json', 'text', 'verbose_json', 'srt', 'vtt'] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<'text' | 'srt' | 'vtt', string> = {
+  text: 'text/plain; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+};
+
+/** Formats that need segment timestamps from the provider */
+export function needsTimestamps(format: TranscriptFormat): boolean {
+  return format === 'verbose_json' || format === 'srt' || format === 'vtt';
+}
+
+// Millisecond precision, so chunk offsets don't leave float noise in timestamps
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Places one chunk's transcript on the whole recording's timeline. Chunk
+ * timestamps start at zero, so each moves by the chunk's `start`; a chunk
+ * the provider returned no segments for becomes one segment up to `end`.
+ * Segment ids continue from `firstId`.
+ */
+export function shiftTranscript(
+  transcription: TranscriptionResult,
+  start: number,
+  end: number,
+  firstId: number
+): { segments: TranscriptSegment[]; words: TranscriptWord[] } {
+  const chunkSegments = transcription.segments?.length
+    ? transcription.segments
+    : [{ id: 0, start: 0, end: end - start, text: transcription.text }];
+
+  const segments = chunkSegments
+    .filter((segment) => segment.text.trim())
+    .map((segment, index) => ({
+      id: firstId + index,
+      start: roundSeconds(start + segment.start),
+      end: roundSeconds(start + segment.end),
+      text: segment.text.trim(),
+    }));
+  const words = (transcription.words || []).map((word) => ({
+    word: word.word.trim(),
+    start: roundSeconds(start + word.start),
+    end: roundSeconds(start + word.end),
+  }));
+
+  return { segments, words };
+}
+
+/** `HH:MM:SS<separator>mmm`; SRT uses a comma, WebVTT a dot. */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// A blank line ends a cue, so cue text must not contain one
+function cueText(text: string): string {
+  return text.trim().replace(/\n\s*\n/g, '\n');
+}
+
+export function formatSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      [
+        String(index + 1),
+        `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+        cueText(segment.text),
+      ].join('\n')
+    )
+    .join('\n\n')
+    .concat('\n');
+}
+
+export function formatVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map((segment) =>
+    [
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+      // "-->" would end the cue timing line early in some players
+      cueText(segment.text).replace(/-->/g, '->'),
+    ].join('\n')
+  );
+
+  return ['WEBVTT', ...cues].join('\n\n').concat('\n');
+}
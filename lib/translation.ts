@@ -0,0 +1,109 @@
+// lib/translation.ts
+import { detectLanguage, getLanguageName, normalizeLanguage } from './languages';
+import type { PageInfo, ProcessRequest } from './request-schema';
+
+/** What the translate feature detected and produced, returned to the caller as `translation` */
+export interface TranslationInfo {
+  /** Undefined when the text was too short or mixed to tell */
+  sourceLanguage?: string;
+  confidence?: number;
+  targetLanguage: string;
+  codeBlocks?: CodeBlockReport;
+}
+
+export interface CodeBlockReport {
+  /** Fenced code blocks in the source text */
+  total: number;
+  /** How many came back from the model exactly as sent */
+  intact: number;
+  /** The source blocks were put back in place of the model's copies */
+  restored: boolean;
+}
+
+const FENCED_BLOCK = /```[^\n]*\n[\s\S]*?```/g;
+
+const DEFAULT_TARGET_LANGUAGE = 'en';
+
+// "into German", "to pt-BR", "in French"
+const TARGET_PHRASE = /\b(?:into|to|in)\s+(\p{L}+(?:[-_][\p{L}\d]+)?)/giu;
+
+/** `TRANSLATE_DEFAULT_LANGUAGE`, or English, for requests that don't name a language. */
+export function getDefaultTargetLanguage(): string {
+  const configured = process.env.TRANSLATE_DEFAULT_LANGUAGE;
+  return (configured && normalizeLanguage(configured)) || DEFAULT_TARGET_LANGUAGE;
+}
+
+/** The language a query like "into German" asks for, if it names one. */
+export function findTargetLanguage(query?: string): string | undefined {
+  for (const match of query?.matchAll(TARGET_PHRASE) || []) {
+    const language = normalizeLanguage(match[1]);
+    if (language) return language;
+  }
+  return undefined;
+}
+
+/** The text translate works on: the selection, else the page. */
+export function getTranslationSource(pageInfo?: PageInfo): string {
+  return pageInfo?.selectedText || pageInfo?.mainText || '';
+}
+
+/**
+ * Detects the source language and settles the target: `responseLanguage`,
+ * else a language named in the query, else the configured default.
+ */
+export function planTranslation(request: ProcessRequest): TranslationInfo {
+  const detected = detectLanguage(getTranslationSource(request.pageInfo));
+  return {
+    sourceLanguage: detected?.language,
+    confidence: detected?.confidence,
+    targetLanguage: request.responseLanguage || findTargetLanguage(request.query) || getDefaultTargetLanguage(),
+  };
+}
+
+export function buildTranslationNote(translation: TranslationInfo): string {
+  const target = getLanguageName(translation.targetLanguage);
+
+  return [
+    translation.sourceLanguage
+      ? `TRANSLATION: The text to translate appears to be in ${getLanguageName(translation.sourceLanguage)}. Translate it into ${target}.`
+      : `TRANSLATION: Work out the language of the text to translate and translate it into ${target}.`,
+    'Translate SELECTED TEXT if there is one, otherwise PAGE CONTENT. Keep the markdown structure (headings, lists, tables, emphasis, links) as it is.',
+    'Copy code blocks, inline code, URLs and placeholders unchanged. Output only the translation, with no notes or preamble.',
+  ].join('\n');
+}
+
+/** How many of the source's fenced code blocks a translation kept exactly. */
+export function checkCodeBlocks(source: string, output: string): CodeBlockReport | undefined {
+  const sourceBlocks = source.match(FENCED_BLOCK) || [];
+  if (sourceBlocks.length === 0) {
+    return undefined;
+  }
+
+  const outputBlocks = output.match(FENCED_BLOCK) || [];
+  return {
+    total: sourceBlocks.length,
+    intact: outputBlocks.filter((block, index) => block === sourceBlocks[index]).length,
+    restored: false,
+  };
+}
+
+/**
+ * Puts the source's fenced code blocks back into a translation, since models
+ * tend to translate comments and strings inside them. Only done when the
+ * translation has as many blocks as the source, so they can be paired up.
+ */
+export function restoreCodeBlocks(source: string, output: string): { text: string; codeBlocks?: CodeBlockReport } {
+  const codeBlocks = checkCodeBlocks(source, output);
+  const outputBlocks = output.match(FENCED_BLOCK) || [];
+
+  if (!codeBlocks || codeBlocks.intact === codeBlocks.total || outputBlocks.length !== codeBlocks.total) {
+    return { text: output, codeBlocks };
+  }
+
+  const sourceBlocks = source.match(FENCED_BLOCK) || [];
+  let index = 0;
+  return {
+    text: output.replace(FENCED_BLOCK, () => sourceBlocks[index++]),
+    codeBlocks: { ...codeBlocks, restored: true },
+  };
+}
@@ -0,0 +1,121 @@
+// lib/upstream.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, ErrorCodes } from './errors';
+import { callUpstream, classifyUpstreamError, parseRetryAfter, UpstreamHttpError, withFallbacks } from './upstream';
+
+const CONTEXT = { provider: 'groq', model: 'llama-3.3-70b-versatile' };
+
+function failingWith(...errors: unknown[]) {
+  return vi.fn(async (model: string) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return `answer from ${model}`;
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('classifyUpstreamError', () => {
+  it.each([
+    [new UpstreamHttpError(429, 'Too many requests', 3), ErrorCodes.UPSTREAM_RATE_LIMITED, 429, true, true],
+    [new Error('400 Please reduce the length of the messages'), ErrorCodes.CONTEXT_TOO_LONG, 413, false, true],
+    [new Error('The model `old-model` has been decommissioned'), ErrorCodes.MODEL_UNAVAILABLE, 503, false, true],
+    [Object.assign(new Error('Service Unavailable'), { status: 503 }), ErrorCodes.MODEL_UNAVAILABLE, 503, true, true],
+    [new Error('Request timed out'), ErrorCodes.UPSTREAM_TIMEOUT, 504, true, true],
+    [new Error('fetch failed'), ErrorCodes.UPSTREAM_ERROR, 502, true, true],
+    [new UpstreamHttpError(422, 'Invalid audio'), ErrorCodes.INVALID_INPUT, 400, false, false],
+    [new UpstreamHttpError(401, 'Invalid API key'), ErrorCodes.UPSTREAM_ERROR, 502, false, false],
+    ['something odd', ErrorCodes.UPSTREAM_ERROR, 502, false, false],
+  ])('classifies %s', (thrown, code, status, retryable, fallback) => {
+    const classified = classifyUpstreamError(thrown, CONTEXT);
+
+    expect(classified.error).toMatchObject({ code, status });
+    expect(classified).toMatchObject({ retryable, fallback });
+  });
+
+  it('keeps the retry delay the provider asked for', () => {
+    const error = Object.assign(new Error('Rate limit reached'), { status: 429, headers: { 'retry-after': '2' } });
+    expect(classifyUpstreamError(error, CONTEXT).retryAfterMs).toBe(2000);
+  });
+
+  it('passes our own errors through', () => {
+    const error = new ApiError(ErrorCodes.INVALID_INPUT, 'Bad request', 400);
+    expect(classifyUpstreamError(error, CONTEXT).error).toBe(error);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds or an HTTP date', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    expect(parseRetryAfter('7')).toBe(7);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('withFallbacks', () => {
+  it('puts the requested model first and drops blanks and duplicates', () => {
+    expect(withFallbacks('a', [' b ', '', 'a', 'c'])).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('callUpstream', () => {
+  beforeEach(() => {
+    vi.stubEnv('UPSTREAM_RETRY_BASE_MS', '0');
+    vi.stubEnv('UPSTREAM_MAX_RETRIES', '2');
+  });
+
+  it('retries a transient failure on the same model', async () => {
+    const call = failingWith(new UpstreamHttpError(503, 'Overloaded'));
+
+    expect(await callUpstream('groq', ['a', 'b'], call)).toEqual({ value: 'answer from a', model: 'a', fallback: undefined });
+    expect(call.mock.calls.map(([model]) => model)).toEqual(['a', 'a']);
+  });
+
+  it('falls back to the next model once retries run out', async () => {
+    const call = failingWith(...Array.from({ length: 3 }, () => new UpstreamHttpError(429, 'Too many requests')));
+
+    expect(await callUpstream('groq', ['a', 'b'], call)).toEqual({
+      value: 'answer from b',
+      model: 'b',
+      fallback: { requestedModel: 'a', reason: ErrorCodes.UPSTREAM_RATE_LIMITED },
+    });
+    expect(call.mock.calls.map(([model]) => model)).toEqual(['a', 'a', 'a', 'b']);
+  });
+
+  it('moves on at once when the model is gone', async () => {
+    const call = failingWith(new UpstreamHttpError(404, 'Model not found'));
+
+    expect((await callUpstream('groq', ['a', 'b'], call)).model).toBe('b');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails at once on invalid input', async () => {
+    const call = failingWith(new UpstreamHttpError(400, 'Bad audio'));
+
+    await expect(callUpstream('groq', ['a', 'b'], call)).rejects.toMatchObject({ code: ErrorCodes.INVALID_INPUT });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last failure when no model answers', async () => {
+    const call = failingWith(new UpstreamHttpError(404, 'Model not found'), new UpstreamHttpError(413, 'Too long'));
+
+    await expect(callUpstream('groq', ['a', 'b'], call)).rejects.toMatchObject({ code: ErrorCodes.CONTEXT_TOO_LONG });
+  });
+
+  it('aborts a call that runs past the timeout', async () => {
+    vi.stubEnv('UPSTREAM_TIMEOUT_MS', '20');
+    vi.stubEnv('UPSTREAM_MAX_RETRIES', '0');
+    let aborted = false;
+    const call = (_model: string, signal: AbortSignal) =>
+      new Promise<string>(() => {
+        signal.addEventListener('abort', () => (aborted = true));
+      });
+
+    await expect(callUpstream('groq', ['a'], call)).rejects.toMatchObject({ code: ErrorCodes.UPSTREAM_TIMEOUT, status: 504 });
+    expect(aborted).toBe(true);
+  });
+});
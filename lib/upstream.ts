@@ -0,0 +1,266 @@
+// lib/upstream.ts
+import { ApiError, ErrorCodes, type ErrorCode } from './errors';
+import { createLogger } from './logger';
+import { metrics } from './metrics';
+
+const log = createLogger('upstream');
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 500;
+const DEFAULT_TIMEOUT_MS = 60000;
+const MAX_BACKOFF_MS = 8000;
+// A provider asking us to wait longer than this is better served by the next model
+const MAX_RETRY_AFTER_MS = 10000;
+
+/** A non-2xx answer from a provider's HTTP API, for providers that call it with fetch. */
+export class UpstreamHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    /** Seconds from the provider's Retry-After header */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+/** Parses a Retry-After header given in seconds or as an HTTP date. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export interface FallbackInfo {
+  /** The model the request asked for */
+  requestedModel: string;
+  /** Why it did not answer */
+  reason: ErrorCode;
+}
+
+export interface UpstreamResult<T> {
+  value: T;
+  /** The model that answered */
+  model: string;
+  /** Set when a fallback model answered instead of the requested one */
+  fallback?: FallbackInfo;
+}
+
+interface UpstreamContext {
+  provider: string;
+  model: string;
+}
+
+export interface ClassifiedError {
+  error: ApiError;
+  /** Worth trying the same model again */
+  retryable: boolean;
+  /** Worth trying the next model in the fallback list */
+  fallback: boolean;
+  retryAfterMs?: number;
+}
+
+const CONTEXT_TOO_LONG = /context[ _-]?(length|window)|maximum context|too many tokens|reduce the length|request too large|prompt is too long/i;
+const MODEL_GONE = /model[ _-]?not[ _-]?found|decommissioned|does not exist|no such model|unknown model|model .*not (available|supported)/i;
+const OVERLOADED = /overloaded|over capacity|temporarily unavailable|service unavailable/i;
+const TIMEOUT = /timed? ?out|timeout|ETIMEDOUT/i;
+const CONNECTION = /ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up|connection error/i;
+
+function getStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+
+  // Providers that only give us a message usually lead it with the status
+  const match = error instanceof Error ? /^(\d{3})\b/.exec(error.message) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function getRetryAfter(error: unknown): number | undefined {
+  if (error instanceof UpstreamHttpError) return error.retryAfter;
+  const headers = (error as { headers?: unknown })?.headers;
+  if (headers instanceof Headers) return parseRetryAfter(headers.get('retry-after'));
+  if (headers && typeof headers === 'object') {
+    return parseRetryAfter((headers as Record<string, string | undefined>)['retry-after']);
+  }
+  return undefined;
+}
+
+/**
+ * Maps whatever a provider threw onto the error taxonomy: rate limited
+ * (429), context too long (413), model unavailable (503), invalid input
+ * (400), upstream timeout (504), or any other upstream failure (502).
+ * Errors that are already ApiErrors are ours and pass through untouched.
+ */
+export function classifyUpstreamError(error: unknown, { provider, model }: UpstreamContext): ClassifiedError {
+  if (error instanceof ApiError) {
+    return { error, retryable: false, fallback: false };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = getStatus(error);
+  const retryAfter = getRetryAfter(error);
+  const details = { provider, model, upstreamStatus: status, retryAfter };
+
+  const build = (code: ErrorCode, httpStatus: number, summary: string, retryable: boolean, fallback: boolean) => ({
+    error: new ApiError(code, `${summary} (${provider}, ${model}): ${message}`, httpStatus, { ...details, retryable }),
+    retryable,
+    fallback,
+    retryAfterMs: retryAfter !== undefined ? retryAfter * 1000 : undefined,
+  });
+
+  if (status === 429) {
+    return build(ErrorCodes.UPSTREAM_RATE_LIMITED, 429, 'The AI provider is rate limiting requests', true, true);
+  }
+  if (status === 413 || CONTEXT_TOO_LONG.test(message)) {
+    // The same prompt won't fit on a retry, but a model with a larger window may take it
+    return build(ErrorCodes.CONTEXT_TOO_LONG, 413, 'The request is too long for the model', false, true);
+  }
+  if (status === 404 || MODEL_GONE.test(message)) {
+    return build(ErrorCodes.MODEL_UNAVAILABLE, 503, 'The model is not available', false, true);
+  }
+  if (status === 503 || OVERLOADED.test(message)) {
+    return build(ErrorCodes.MODEL_UNAVAILABLE, 503, 'The model is temporarily unavailable', true, true);
+  }
+  if (status === 408 || status === 504 || /Timeout/.test(name) || TIMEOUT.test(message)) {
+    return build(ErrorCodes.UPSTREAM_TIMEOUT, 504, 'The AI provider did not answer in time', true, true);
+  }
+  if (status === 400 || status === 422) {
+    return build(ErrorCodes.INVALID_INPUT, 400, 'The AI provider rejected the request', false, false);
+  }
+  if (status === 401 || status === 403) {
+    // Another model on the same account won't accept the key either
+    return build(ErrorCodes.UPSTREAM_ERROR, 502, 'The AI provider rejected the server credentials', false, false);
+  }
+  if ((status !== undefined && status >= 500) || /Connection/.test(name) || CONNECTION.test(message)) {
+    return build(ErrorCodes.UPSTREAM_ERROR, 502, 'The AI provider failed', true, true);
+  }
+
+  return build(ErrorCodes.UPSTREAM_ERROR, 502, 'The AI provider failed', false, false);
+}
+
+function readNumber(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || '', 10);
+  return configured >= 0 ? configured : fallback;
+}
+
+export function getUpstreamTimeoutMs(): number {
+  return readNumber('UPSTREAM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+}
+
+/** `models` with duplicates and blanks removed, the requested one first. */
+export function withFallbacks(requested: string, fallbacks: string[] = []): string[] {
+  return [...new Set([requested, ...fallbacks].map((model) => model.trim()).filter(Boolean))];
+}
+
+/** Model ids from a comma separated env var, e.g. `TRANSCRIPTION_FALLBACK_MODELS`. */
+export function getFallbackModelsFromEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map((model) => model.trim()).filter(Boolean);
+}
+
+function backoffMs(attempt: number, base: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, base * 2 ** attempt);
+  return exponential + Math.floor(Math.random() * base);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `call` with a signal that is aborted after `ms`, so the provider's
+ * request is cancelled rather than left running in the background.
+ */
+async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> {
+  const controller = new AbortController();
+  if (ms <= 0) return call(controller.signal);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new UpstreamHttpError(504, `No answer after ${ms} ms`);
+      reject(error);
+      controller.abort(error);
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs one upstream call against each model in turn until one answers.
+ * Retryable failures (rate limits, timeouts, overloaded or failing servers)
+ * are retried on the same model with exponential backoff, up to
+ * `UPSTREAM_MAX_RETRIES` times (default 2) starting at
+ * `UPSTREAM_RETRY_BASE_MS` (default 500). After that, or straight away for
+ * a missing model or a prompt that is too long, the next model is tried.
+ * Invalid input fails at once. Each call is limited to
+ * `UPSTREAM_TIMEOUT_MS` (default 60000, `0` disables): `call` gets a signal
+ * that is aborted when the limit passes, which it hands to the provider.
+ * Calls are timed for the logs and `/api/metrics`.
+ */
+export async function callUpstream<T>(
+  provider: string,
+  models: string[],
+  call: (model: string, signal: AbortSignal) => Promise<T>
+): Promise<UpstreamResult<T>> {
+  const maxRetries = readNumber('UPSTREAM_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+  const baseMs = readNumber('UPSTREAM_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS);
+  const timeoutMs = getUpstreamTimeoutMs();
+  const requestedModel = models[0];
+  let firstFailure: ClassifiedError | undefined;
+  let lastFailure: ClassifiedError | undefined;
+
+  for (const model of models) {
+    for (let attempt = 0; ; attempt++) {
+      const started = performance.now();
+      try {
+        const value = await withTimeout((signal) => call(model, signal), timeoutMs);
+        const durationMs = Math.round(performance.now() - started);
+        metrics.recordUpstream(provider, model, durationMs);
+        log.info('Upstream call', { provider, model, attempt: attempt + 1, durationMs });
+        return {
+          value,
+          model,
+          fallback: model !== requestedModel && firstFailure
+            ? { requestedModel, reason: firstFailure.error.code }
+            : undefined,
+        };
+      } catch (error) {
+        const failure = classifyUpstreamError(error, { provider, model });
+        const durationMs = Math.round(performance.now() - started);
+        metrics.recordUpstream(provider, model, durationMs, failure.error.code);
+        log.warn('Upstream call failed', {
+          provider,
+          model,
+          attempt: attempt + 1,
+          durationMs,
+          code: failure.error.code,
+          upstreamStatus: failure.error.details?.upstreamStatus,
+        });
+        if (!failure.fallback) throw failure.error;
+
+        firstFailure ||= failure;
+        lastFailure = failure;
+
+        const delay = failure.retryAfterMs ?? backoffMs(attempt, baseMs);
+        if (!failure.retryable || attempt >= maxRetries || delay > MAX_RETRY_AFTER_MS) {
+          log.warn('Giving up on model', { provider, model, code: failure.error.code, attempts: attempt + 1 });
+          break;
+        }
+
+        log.info('Retrying upstream call', { provider, model, code: failure.error.code, delayMs: delay });
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw (lastFailure as ClassifiedError).error;
+}
@@ -0,0 +1,70 @@
+// lib/usage-store.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getQuotaHeaders, UsageStore } from './usage-store';
+
+const usageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-test-'));
+let fileCount = 0;
+
+beforeEach(() => {
+  vi.stubEnv('USAGE_FILE', path.join(usageDir, `usage-${fileCount++}.json`));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  fs.rmSync(usageDir, { recursive: true, force: true });
+});
+
+describe('UsageStore', () => {
+  it('totals usage by day and month, per feature and model', async () => {
+    const store = new UsageStore();
+    const now = new Date('2026-03-14T12:00:00Z');
+    await store.record('key-1', { feature: 'summarize', model: 'mock-chat', tokens: 120 }, now);
+    await store.record('key-1', { feature: 'transcribe', audioSeconds: 30.5 }, now);
+    await store.record('key-1', { feature: 'summarize', model: 'mock-chat', tokens: 80 }, new Date('2026-03-01T00:00:00Z'));
+    await store.record('key-2', { feature: 'summarize', tokens: 5 }, now);
+
+    const { day, month } = await store.getReport('key-1', now);
+    expect(day).toMatchObject({ period: '2026-03-14', requests: 2, tokens: 120, audioSeconds: 30.5 });
+    expect(day.models).toEqual({ 'mock-chat': { requests: 1, tokens: 120, audioSeconds: 0 } });
+    expect(month).toMatchObject({ period: '2026-03', requests: 3, tokens: 200 });
+    expect(month.features.summarize).toEqual({ requests: 2, tokens: 200, audioSeconds: 0 });
+    expect(await store.listClients()).toEqual(['key-1', 'key-2']);
+  });
+
+  it('keeps the last 35 days', async () => {
+    const store = new UsageStore();
+    for (let day = 0; day < 40; day++) {
+      await store.record('key-1', { feature: 'summarize', tokens: 1 }, new Date(Date.UTC(2026, 0, 1 + day)));
+    }
+
+    expect((await store.getReport('key-1', new Date('2026-01-05T00:00:00Z'))).day.requests).toBe(0);
+    expect((await store.getReport('key-1', new Date('2026-01-06T00:00:00Z'))).day.requests).toBe(1);
+  });
+
+  it('reports configured quotas with what is left and when they reset', async () => {
+    vi.stubEnv('QUOTA_TOKENS_DAILY', '100');
+    vi.stubEnv('QUOTA_AUDIO_SECONDS_MONTHLY', '60');
+    const store = new UsageStore();
+    const now = new Date('2026-03-14T23:00:00Z');
+    await store.record('key-1', { feature: 'summarize', tokens: 130 }, now);
+    await store.record('key-1', { feature: 'transcribe', audioSeconds: 20 }, now);
+
+    const { quotas } = await store.getReport('key-1', now);
+    expect(quotas).toEqual([
+      { metric: 'tokens', period: 'daily', limit: 100, used: 130, remaining: -30, resetSeconds: 3600 },
+      { metric: 'audioSeconds', period: 'monthly', limit: 60, used: 20, remaining: 40, resetSeconds: 17 * 86400 + 3600 },
+    ]);
+    expect(getQuotaHeaders(quotas)).toEqual({
+      'X-Quota-Tokens-Daily-Limit': '100',
+      'X-Quota-Tokens-Daily-Remaining': '0',
+      'X-Quota-Audio-Seconds-Monthly-Limit': '60',
+      'X-Quota-Audio-Seconds-Monthly-Remaining': '40',
+    });
+  });
+});
@@ -0,0 +1,245 @@
+// lib/usage-store.ts
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const log = createLogger('usage');
+
+const DEFAULT_FILE = '.data/usage.json';
+const KEEP_DAYS = 35;
+const KEEP_MONTHS = 13;
+
+export type QuotaMetric = 'tokens' | 'audioSeconds';
+export type QuotaPeriod = 'daily' | 'monthly';
+
+const QUOTA_ENV: Record<QuotaMetric, Record<QuotaPeriod, string>> = {
+  tokens: { daily: 'QUOTA_TOKENS_DAILY', monthly: 'QUOTA_TOKENS_MONTHLY' },
+  audioSeconds: { daily: 'QUOTA_AUDIO_SECONDS_DAILY', monthly: 'QUOTA_AUDIO_SECONDS_MONTHLY' },
+};
+
+const QUOTA_HEADER_PREFIX: Record<QuotaMetric, string> = {
+  tokens: 'X-Quota-Tokens',
+  audioSeconds: 'X-Quota-Audio-Seconds',
+};
+
+function quotaHeaderName(metric: QuotaMetric, period: QuotaPeriod): string {
+  return `${QUOTA_HEADER_PREFIX[metric]}-${period === 'daily' ? 'Daily' : 'Monthly'}`;
+}
+
+export const QUOTA_HEADER_NAMES = (Object.keys(QUOTA_ENV) as QuotaMetric[]).flatMap((metric) =>
+  (['daily', 'monthly'] as const).flatMap((period) => {
+    const name = quotaHeaderName(metric, period);
+    return [`${name}-Limit`, `${name}-Remaining`];
+  })
+);
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+  audioSeconds: number;
+}
+
+export interface PeriodUsage extends UsageTotals {
+  /** `2026-03-14` for a day, `2026-03` for a month (UTC) */
+  period: string;
+  features: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals>;
+}
+
+interface ClientUsage {
+  days: Record<string, PeriodUsage>;
+  months: Record<string, PeriodUsage>;
+}
+
+interface UsageFile {
+  clients: Record<string, ClientUsage>;
+}
+
+export interface UsageEntry {
+  feature: string;
+  model?: string;
+  tokens?: number;
+  audioSeconds?: number;
+}
+
+export interface QuotaStatus {
+  metric: QuotaMetric;
+  period: QuotaPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  /** Seconds until the period starts over */
+  resetSeconds: number;
+}
+
+export interface ClientUsageReport {
+  clientId: string;
+  day: PeriodUsage;
+  month: PeriodUsage;
+  quotas: QuotaStatus[];
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, tokens: 0, audioSeconds: 0 };
+}
+
+function emptyPeriod(period: string): PeriodUsage {
+  return { period, ...emptyTotals(), features: {}, models: {} };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry) {
+  totals.requests += 1;
+  totals.tokens += entry.tokens || 0;
+  totals.audioSeconds = Math.round((totals.audioSeconds + (entry.audioSeconds || 0)) * 1000) / 1000;
+}
+
+function addToPeriod(usage: PeriodUsage, entry: UsageEntry) {
+  addTo(usage, entry);
+  addTo((usage.features[entry.feature] ||= emptyTotals()), entry);
+  if (entry.model) {
+    addTo((usage.models[entry.model] ||= emptyTotals()), entry);
+  }
+}
+
+function keepLatest(periods: Record<string, PeriodUsage>, count: number) {
+  const keys = Object.keys(periods).sort();
+  for (const key of keys.slice(0, Math.max(0, keys.length - count))) {
+    delete periods[key];
+  }
+}
+
+function periodKeys(now: Date) {
+  const iso = now.toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+function secondsUntilReset(period: QuotaPeriod, now: Date): number {
+  const next =
+    period === 'daily'
+      ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
+
+export function getQuotaLimit(metric: QuotaMetric, period: QuotaPeriod): number | undefined {
+  const configured = parseFloat(process.env[QUOTA_ENV[metric][period]] || '');
+  return configured >= 0 ? configured : undefined;
+}
+
+export function getQuotaHeaders(quotas: QuotaStatus[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const quota of quotas) {
+    const name = quotaHeaderName(quota.metric, quota.period);
+    headers[`${name}-Limit`] = String(quota.limit);
+    headers[`${name}-Remaining`] = String(Math.max(0, Math.floor(quota.remaining)));
+  }
+  return headers;
+}
+
+/**
+ * Per-client usage counters by day and month (UTC) in one JSON file
+ * (`USAGE_FILE`, default `.data/usage.json`), broken down by feature and
+ * model. The last 35 days and 13 months are kept. Quotas are checked
+ * against these counters before a request runs, so the call that crosses
+ * a limit still completes.
+ */
+export class UsageStore {
+  private cache: { mtime: number; file: UsageFile } | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  private getPath() {
+    return path.resolve(process.cwd(), process.env.USAGE_FILE || DEFAULT_FILE);
+  }
+
+  private async read(): Promise<UsageFile> {
+    const filePath = this.getPath();
+    let mtime: number;
+    try {
+      mtime = (await fs.promises.stat(filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { clients: {} };
+      throw error;
+    }
+
+    if (this.cache?.mtime !== mtime) {
+      const file = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as UsageFile;
+      this.cache = { mtime, file: { clients: file.clients || {} } };
+    }
+    return this.cache.file;
+  }
+
+  private async write(file: UsageFile) {
+    const filePath = this.getPath();
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.promises.rename(tempPath, filePath);
+    this.cache = null;
+  }
+
+  /** Adds one metered call. Failures are logged, never thrown: the answer was already produced. */
+  async record(clientId: string, entry: UsageEntry, now = new Date()): Promise<void> {
+    const task = async () => {
+      const file = structuredClone(await this.read());
+      const client = (file.clients[clientId] ||= { days: {}, months: {} });
+      const keys = periodKeys(now);
+
+      addToPeriod((client.days[keys.day] ||= emptyPeriod(keys.day)), entry);
+      addToPeriod((client.months[keys.month] ||= emptyPeriod(keys.month)), entry);
+      keepLatest(client.days, KEEP_DAYS);
+      keepLatest(client.months, KEEP_MONTHS);
+
+      await this.write(file);
+    };
+
+    const next = this.writing.catch(() => undefined).then(task);
+    this.writing = next;
+
+    try {
+      await next;
+    } catch (error) {
+      log.error('Failed to record usage', { clientId, error });
+    }
+  }
+
+  async getReport(clientId: string, now = new Date()): Promise<ClientUsageReport> {
+    const client = (await this.read()).clients[clientId];
+    const keys = periodKeys(now);
+    const day = client?.days[keys.day] || emptyPeriod(keys.day);
+    const month = client?.months[keys.month] || emptyPeriod(keys.month);
+
+    const quotas: QuotaStatus[] = [];
+    for (const metric of Object.keys(QUOTA_ENV) as QuotaMetric[]) {
+      for (const period of ['daily', 'monthly'] as const) {
+        const limit = getQuotaLimit(metric, period);
+        if (limit === undefined) continue;
+
+        const used = (period === 'daily' ? day : month)[metric];
+        quotas.push({ metric, period, limit, used, remaining: limit - used, resetSeconds: secondsUntilReset(period, now) });
+      }
+    }
+
+    return { clientId, day, month, quotas };
+  }
+
+  async listClients(): Promise<string[]> {
+    return Object.keys((await this.read()).clients).sort();
+  }
+}
+
+// Export a singleton instance
+export const usageStore = new UsageStore();
+
+/** Passes stream events through, recording usage when the `done` event goes by. */
+export async function* recordStreamUsage<T extends { type: string }>(
+  clientId: string,
+  events: AsyncIterable<T>,
+  toEntry: (done: Extract<T, { type: 'done' }>) => UsageEntry
+): AsyncGenerator<T> {
+  for await (const event of events) {
+    if (event.type === 'done') {
+      await usageStore.record(clientId, toEntry(event as Extract<T, { type: 'done' }>));
+    }
+    yield event;
+  }
+}
@@ -0,0 +1,118 @@
+// lib/voice-intent.ts
+import { ApiError, ErrorCodes } from './errors';
+import { featureRegistry } from './features';
+import { getMissingInputs, type Feature, type PageInfo } from './request-schema';
+
+// Used, in order, when no trigger phrase matches
+const FALLBACK_FEATURES = ['stt', 'ask'];
+
+const LEADING_FILLER = /^(?:(?:hey|ok|okay|so|um|uh|please|can you|could you|would you|will you|give me|tell me|show me|i want you to|i'd like you to)\b[\s,]*)+/i;
+const TRAILING_FILLER = /(?:[\s,]*\b(?:please|for me|thanks|thank you))+$/i;
+// What's left of "summarize this page" is not a useful query
+const REFERENCE_WORDS = '(?:the|this|that|these|it|all|of|on|about|to|for|selected|selection|page|article|text|paragraph|section|post|email|here)';
+const BARE_REFERENCE = new RegExp(`^(?:${REFERENCE_WORDS}\\b\\s*)*$`, 'i');
+// "summarize this, focusing on pricing" -> "focusing on pricing"
+const LEADING_REFERENCE = new RegExp(`^(?:${REFERENCE_WORDS}\\b\\s*)+,\\s*`, 'i');
+
+export interface VoiceIntent {
+  feature: Feature;
+  /** How the feature was chosen */
+  source: 'explicit' | 'detected' | 'fallback';
+  /** The trigger phrase that matched, for `detected` */
+  trigger?: string;
+  /** Sent to the feature as its query */
+  query?: string;
+}
+
+interface TriggerMatch {
+  feature: Feature;
+  trigger: string;
+  index: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findTriggers(transcript: string): TriggerMatch[] {
+  const matches: TriggerMatch[] = [];
+
+  for (const definition of featureRegistry.list()) {
+    for (const trigger of definition.voiceTriggers || []) {
+      const pattern = new RegExp(`(?:^|[^\\w])(${escapeRegExp(trigger.trim())})(?=[^\\w]|$)`, 'i');
+      const match = pattern.exec(transcript);
+      if (match) {
+        matches.push({
+          feature: definition.id,
+          trigger: match[1],
+          index: match.index + match[0].length - match[1].length,
+        });
+      }
+    }
+  }
+
+  // The command usually leads ("summarize this, focusing on..."), so the
+  // earliest phrase wins; on a tie the longer, more specific one does
+  return matches.sort((a, b) => a.index - b.index || b.trigger.length - a.trigger.length);
+}
+
+/** The transcript without the trigger phrase and conversational filler. */
+function extractQuery(transcript: string, match: TriggerMatch): string | undefined {
+  const remainder = `${transcript.slice(0, match.index)} ${transcript.slice(match.index + match.trigger.length)}`
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_FILLER, '')
+    .replace(LEADING_REFERENCE, '')
+    .replace(/[\s.,!?;:]+$/, '')
+    .replace(TRAILING_FILLER, '')
+    .replace(/^[\s.,!?;:]+/, '')
+    .trim();
+
+  return remainder && !BARE_REFERENCE.test(remainder) ? remainder : undefined;
+}
+
+/**
+ * Works out which registered feature a spoken command is asking for, by
+ * matching each feature's `voiceTriggers` against the transcript. Features
+ * whose required inputs the request can't supply (e.g. `selectedText` with
+ * nothing selected) are skipped. Unmatched commands go to the first
+ * available fallback feature with the whole transcript as the query.
+ */
+export function detectVoiceIntent(
+  transcript: string,
+  context: { pageInfo?: PageInfo; featurePrompt?: string },
+  explicitFeature?: Feature
+): VoiceIntent {
+  const text = transcript.trim();
+  if (!text) {
+    throw new ApiError(ErrorCodes.NO_SPEECH_DETECTED, 'No speech was detected in the audio', 422);
+  }
+
+  if (explicitFeature) {
+    return { feature: explicitFeature, source: 'explicit', query: text };
+  }
+
+  for (const match of findTriggers(text)) {
+    const definition = featureRegistry.require(match.feature);
+    // Features that need a query get the full command when nothing else is left
+    const query =
+      extractQuery(text, match) || (definition.requiredInputs.includes('query') ? text : undefined);
+
+    if (getMissingInputs(match.feature, { ...context, query }).length === 0) {
+      return { feature: match.feature, source: 'detected', trigger: match.trigger, query };
+    }
+  }
+
+  for (const feature of FALLBACK_FEATURES) {
+    if (featureRegistry.get(feature) && getMissingInputs(feature, { ...context, query: text }).length === 0) {
+      return { feature, source: 'fallback', query: text };
+    }
+  }
+
+  throw new ApiError(
+    ErrorCodes.VOICE_INTENT_UNRESOLVED,
+    'Could not tell which feature the spoken command is for; pass "feature" explicitly',
+    422,
+    { transcription: text }
+  );
+}
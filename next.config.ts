@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // Enable strict mode for React
+  // ffmpeg is resolved from node_modules at runtime, so keep it out of the bundle
+  serverExternalPackages: ["fluent-ffmpeg", "@ffmpeg-installer/ffmpeg"],
 };
 
 export default nextConfig;
@@ -0,0 +1,148 @@
+// proxy.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUTH_METHOD_HEADER,
+  authenticate,
+  CLIENT_ID_HEADER,
+  getCorsHeaders,
+  isOriginAllowed,
+} from '@/lib/auth';
+import { ApiError, ErrorCodes, errorResponse } from '@/lib/errors';
+import { createLogger, REQUEST_ID_HEADER } from '@/lib/logger';
+import { getRateLimitHeaders, rateLimiter } from '@/lib/rate-limiter';
+import { resolveRequestId } from '@/lib/request-tracing';
+import { getQuotaHeaders, usageStore } from '@/lib/usage-store';
+
+const logger = createLogger('proxy');
+
+const AUTH_ERROR = {
+  code: ErrorCodes.AUTH_FAILED,
+  error: 'Authentication failed',
+};
+
+const PREFLIGHT_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Cache-Bypass, X-Request-Id, Cache-Control, Accept',
+  'Access-Control-Max-Age': '600',
+};
+
+const ADMIN_PATHS = ['/api/keys', '/api/metrics'];
+
+// Routes that spend tokens or audio seconds, and so are subject to quotas
+const METERED_PATHS = ['/api/process', '/api/voice', '/api/transcribe', '/api/speak'];
+
+function matchesPath(pathname: string, prefixes: string[]) {
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+interface LimitCheck {
+  headers: Record<string, string>;
+  /** Set when the caller is over its rate limit or a quota */
+  rejection?: ApiError;
+}
+
+/** Takes one request from the caller's rate limit and, for metered routes, checks its quotas. */
+async function checkLimits(clientId: string, metered: boolean): Promise<LimitCheck> {
+  const rate = rateLimiter.take(clientId);
+  const headers = rate ? getRateLimitHeaders(rate) : {};
+
+  if (rate && !rate.allowed) {
+    headers['Retry-After'] = String(rate.resetSeconds);
+    return {
+      headers,
+      rejection: new ApiError(ErrorCodes.RATE_LIMITED, `Too many requests. Limit is ${rate.limit} per minute`, 429, {
+        retryAfter: rate.resetSeconds,
+      }),
+    };
+  }
+
+  if (!metered) {
+    return { headers };
+  }
+
+  const { quotas } = await usageStore.getReport(clientId);
+  Object.assign(headers, getQuotaHeaders(quotas));
+
+  const exceeded = quotas.find((quota) => quota.remaining <= 0);
+  if (exceeded) {
+    const period = exceeded.period === 'daily' ? 'Daily' : 'Monthly';
+    const metric = exceeded.metric === 'tokens' ? 'token' : 'audio second';
+    headers['Retry-After'] = String(exceeded.resetSeconds);
+    return {
+      headers,
+      rejection: new ApiError(ErrorCodes.QUOTA_EXCEEDED, `${period} ${metric} quota of ${exceeded.limit} used up`, 429, {
+        quota: exceeded,
+        retryAfter: exceeded.resetSeconds,
+      }),
+    };
+  }
+
+  return { headers };
+}
+
+function withHeaders(response: NextResponse, headers: Record<string, string>) {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Runs in front of every API route: rejects origins ALLOWED_ORIGINS does not allow,
+ * answers CORS preflights, authenticates the caller, applies its rate limit
+ * and quotas, and tells the route who it is through the x-client-id and
+ * x-auth-method request headers. Every request gets an id, passed to the
+ * route in x-request-id and returned in the X-Request-Id response header.
+ */
+export async function proxy(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  const requestId = resolveRequestId(request.headers);
+  const log = logger.child({ requestId, path: request.nextUrl.pathname });
+
+  if (origin && !isOriginAllowed(origin, request.nextUrl.origin)) {
+    log.warn('Origin not allowed', { origin });
+    return withHeaders(
+      errorResponse(new ApiError(ErrorCodes.ORIGIN_NOT_ALLOWED, `Origin not allowed: ${origin}`, 403), AUTH_ERROR),
+      { 'X-Request-Id': requestId }
+    );
+  }
+
+  const corsHeaders = { ...getCorsHeaders(origin), 'X-Request-Id': requestId };
+
+  if (request.method === 'OPTIONS') {
+    return new NextResponse(null, { status: 204, headers: { ...corsHeaders, ...PREFLIGHT_HEADERS } });
+  }
+
+  try {
+    const { pathname } = request.nextUrl;
+    const auth = await authenticate(request.headers, { admin: matchesPath(pathname, ADMIN_PATHS) });
+
+    // The admin key is for operating the service and is never limited
+    const limits: LimitCheck =
+      auth.method === 'admin' ? { headers: {} } : await checkLimits(auth.clientId, matchesPath(pathname, METERED_PATHS));
+
+    if (limits.rejection) {
+      log.warn('Limit reached', { clientId: auth.clientId, code: limits.rejection.code, reason: limits.rejection.message });
+      return withHeaders(errorResponse(limits.rejection, AUTH_ERROR), { ...corsHeaders, ...limits.headers });
+    }
+
+    const headers = new Headers(request.headers);
+    headers.set(CLIENT_ID_HEADER, auth.clientId);
+    headers.set(AUTH_METHOD_HEADER, auth.method);
+    headers.set(REQUEST_ID_HEADER, requestId);
+
+    return withHeaders(NextResponse.next({ request: { headers } }), { ...corsHeaders, ...limits.headers });
+  } catch (error) {
+    log.warn('Rejected request', { error });
+
+    const response = withHeaders(errorResponse(error, AUTH_ERROR), corsHeaders);
+    if (response.status === 401) {
+      response.headers.set('WWW-Authenticate', 'Bearer');
+    }
+    return response;
+  }
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};